@@ -0,0 +1,100 @@
+import { aws_iam as iam, RemovalPolicy, Stack } from "aws-cdk-lib";
+import { Construct } from "constructs";
+import {
+  BackupPlan,
+  BackupPlanRule,
+  BackupResource,
+  BackupVault,
+  IBackupVault,
+} from "aws-cdk-lib/aws-backup";
+import { Schedule } from "aws-cdk-lib/aws-events";
+import { InfrastructureStackBackupProps } from "../infrastructure-stack-props";
+
+type Props = InfrastructureStackBackupProps & {
+  // whether the infrastructure is for development - development vaults are
+  // destroyed along with the stack
+  isDevelopment: boolean;
+
+  // the ARNs of the databases (instances or clusters) to back up
+  databaseArns: string[];
+};
+
+/**
+ * An AWS Backup vault and plan that backs up the databases (and any
+ * selected S3 buckets) of the infrastructure - optionally copying
+ * the backups to other vaults (in other regions or accounts).
+ */
+export class BackupConstruct extends Construct {
+  private readonly _vault: BackupVault;
+
+  constructor(scope: Construct, id: string, props: Props) {
+    super(scope, id);
+
+    this._vault = new BackupVault(this, "Vault", {
+      removalPolicy: props.isDevelopment
+        ? RemovalPolicy.DESTROY
+        : RemovalPolicy.RETAIN,
+    });
+
+    const plan = new BackupPlan(this, "Plan", {
+      backupVault: this._vault,
+      backupPlanRules: [
+        new BackupPlanRule({
+          ruleName: "Scheduled",
+          // by default daily in the early hours (UTC)
+          scheduleExpression:
+            props.schedule ?? Schedule.cron({ hour: "5", minute: "0" }),
+          deleteAfter: props.deleteAfter,
+          moveToColdStorageAfter: props.moveToColdStorageAfter,
+          copyActions: (props.copyTo ?? []).map((copy, i) => ({
+            destinationBackupVault: BackupVault.fromBackupVaultArn(
+              this,
+              `CopyVault${i}`,
+              copy.destinationBackupVaultArn,
+            ),
+            deleteAfter: copy.deleteAfter,
+          })),
+        }),
+      ],
+    });
+
+    const bucketNames = props.bucketNames ?? [];
+
+    const resources = [
+      ...props.databaseArns,
+      ...bucketNames.map((bucketName) =>
+        Stack.of(this).formatArn({
+          service: "s3",
+          region: "",
+          account: "",
+          resource: bucketName,
+        }),
+      ),
+    ].map((arn) => BackupResource.fromArn(arn));
+
+    if (resources.length > 0)
+      plan.addSelection("Selection", {
+        resources: resources,
+        allowRestores: true,
+        // the default backup policies do not cover S3
+        role:
+          bucketNames.length > 0
+            ? new iam.Role(this, "SelectionRole", {
+                assumedBy: new iam.ServicePrincipal("backup.amazonaws.com"),
+                managedPolicies: [
+                  iam.ManagedPolicy.fromAwsManagedPolicyName(
+                    "AWSBackupServiceRolePolicyForS3Backup",
+                  ),
+                  iam.ManagedPolicy.fromAwsManagedPolicyName(
+                    "AWSBackupServiceRolePolicyForS3Restore",
+                  ),
+                ],
+              })
+            : undefined,
+      });
+  }
+
+  public get vault(): IBackupVault {
+    return this._vault;
+  }
+}
@@ -0,0 +1,109 @@
+import { Annotations, CfnOutput, Resource, Tokenization } from "aws-cdk-lib";
+import { Construct } from "constructs";
+import {
+  BastionHostLinux,
+  Connections,
+  IConnectable,
+  InstanceClass,
+  InstanceSize,
+  InstanceType,
+  ISecurityGroup,
+  IVpc,
+  Port,
+  SubnetType,
+} from "aws-cdk-lib/aws-ec2";
+import { InfrastructureStackBastionProps } from "../infrastructure-stack-props";
+
+type Props = InfrastructureStackBastionProps & {
+  // the VPC that the bastion will live in
+  vpc: IVpc;
+};
+
+/**
+ * A bastion instance that operators reach through SSM Session Manager (it has no
+ * inbound ports at all) - and which is let in by the security groups of the
+ * databases (and EdgeDbs) so that it can port forward to them.
+ */
+export class BastionConstruct extends Construct implements IConnectable {
+  private readonly _host: BastionHostLinux;
+
+  constructor(scope: Construct, id: string, props: Props) {
+    super(scope, id);
+
+    this._host = new BastionHostLinux(this, "Host", {
+      vpc: props.vpc,
+      // the bastion reaches SSM through the NAT or the SSM interface endpoints - it never
+      // needs a public IP
+      subnetSelection: {
+        subnetType: SubnetType.PRIVATE_WITH_EGRESS,
+      },
+      instanceType:
+        props.instanceType ??
+        InstanceType.of(InstanceClass.BURSTABLE4_GRAVITON, InstanceSize.NANO),
+      requireImdsv2: true,
+    });
+
+    // for letting the bastion in to security groups that we cannot change ourselves
+    new CfnOutput(this, "SecurityGroupId", {
+      description: "The security group of the bastion",
+      value: this._host.connections.securityGroups[0].securityGroupId,
+    });
+  }
+
+  /**
+   * Make the bastion able to reach a target (i.e. a database) by letting it in to the
+   * membership security group of the target on the port of the target - and output the
+   * command that port forwards to the target. A security group that we do not own (i.e. of
+   * an existing database) cannot be changed - so the group is instead output (with a
+   * warning) for an operator to let the bastion in by hand.
+   *
+   * @param id a CDK id safe name for the target
+   * @param securityGroup the membership security group of the target
+   * @param hostname the hostname of the target
+   * @param port the port of the target
+   */
+  public addTarget(
+    id: string,
+    securityGroup: ISecurityGroup,
+    hostname: string,
+    port: number,
+  ) {
+    if (Resource.isOwnedResource(securityGroup)) {
+      // an ingress rule (rather than joining the group) as instances can by default only be
+      // in 5 security groups
+      securityGroup.connections.allowFrom(
+        this._host,
+        Port.tcp(port),
+        `Port forwarding from the bastion to ${id}`,
+      );
+    } else {
+      Annotations.of(this).addWarning(
+        `The bastion cannot change the security group ${securityGroup.securityGroupId} of ${id} - ` +
+          `it must be changed by hand to let the bastion in before port forwarding`,
+      );
+
+      new CfnOutput(this, `${id}PortForwardSecurityGroup`, {
+        description:
+          "A security group that must be changed by hand to let in the bastion security group (BastionSecurityGroupId) on the port of the target",
+        value: securityGroup.securityGroupId,
+      });
+    }
+
+    const portString = Tokenization.stringifyNumber(port);
+
+    new CfnOutput(this, `${id}PortForwardCommand`, {
+      value:
+        `aws ssm start-session --target ${this._host.instanceId} ` +
+        `--document-name AWS-StartPortForwardingSessionToRemoteHost ` +
+        `--parameters host=${hostname},portNumber=${portString},localPortNumber=${portString}`,
+    });
+  }
+
+  public get connections(): Connections {
+    return this._host.connections;
+  }
+
+  public get instanceId(): string {
+    return this._host.instanceId;
+  }
+}
@@ -0,0 +1,15 @@
+import { camelCase } from "./justCamelCase";
+
+/**
+ * Convert a name (i.e. a database name) into a string that is safe to use
+ * as part of a CDK construct id.
+ *
+ * @param name a name that must contain at least one alphanumeric character
+ */
+export function cdkIdSafeName(name: string): string {
+  const camelName = camelCase(name);
+
+  // we want first char to be capital if possible - so that it reads
+  // nicely when concatenated with other ids
+  return camelName[0].toUpperCase() + camelName.slice(1);
+}
@@ -0,0 +1,180 @@
+import * as path from "path";
+import {
+  aws_ec2 as ec2,
+  aws_iam as iam,
+  aws_lambda as lambda,
+  aws_logs as logs,
+  custom_resources as cr,
+  CustomResource,
+  Duration,
+  Stack,
+} from "aws-cdk-lib";
+import { Construct } from "constructs";
+import { FargateTaskDefinition, ICluster } from "aws-cdk-lib/aws-ecs";
+import { ISecurityGroup } from "aws-cdk-lib/aws-ec2";
+
+type Props = {
+  // the VPC that the task will run in (in the private subnets)
+  vpc: ec2.IVpc;
+
+  // the cluster to run the task in
+  cluster: ICluster;
+
+  // the task to run - the task definition ARN changes whenever the task does
+  // (i.e. a change of command) - and that is what causes the task to be run again
+  taskDefinition: FargateTaskDefinition;
+
+  // security groups (other than a general egress group) that the task needs - i.e. the
+  // membership group of whatever service the task is going to talk to
+  securityGroups: ISecurityGroup[];
+};
+
+// the id of the provider that is shared by all the tasks of a stack
+const PROVIDER_ID = "RunTaskOnDeployProvider";
+
+/**
+ * A custom resource that runs a one-shot Fargate task whenever it is created or
+ * the task definition changes. The deployment waits for the task to stop - and fails
+ * if the task does not exit cleanly (so tasks are retried on the next deployment and need
+ * to be idempotent).
+ */
+export class RunTaskOnDeployConstruct extends Construct {
+  private readonly _egressSecurityGroup: ec2.SecurityGroup;
+
+  constructor(scope: Construct, id: string, props: Props) {
+    super(scope, id);
+
+    this._egressSecurityGroup = new ec2.SecurityGroup(
+      this,
+      "EgressSecurityGroup",
+      {
+        vpc: props.vpc,
+        allowAllOutbound: true,
+        description:
+          "Security group that allows a one-shot task to reach out over the network",
+      },
+    );
+
+    const provider = RunTaskOnDeployProvider.of(this);
+
+    provider.grantRunTask(props.cluster, props.taskDefinition);
+
+    new CustomResource(this, "RunTask", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::RunTaskOnDeploy",
+      properties: {
+        Cluster: props.cluster.clusterArn,
+        TaskDefinition: props.taskDefinition.taskDefinitionArn,
+        Subnets: props.vpc.selectSubnets({
+          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+        }).subnetIds,
+        SecurityGroups: [
+          this._egressSecurityGroup.securityGroupId,
+          ...props.securityGroups.map((sg) => sg.securityGroupId),
+        ],
+      },
+    });
+  }
+
+  /**
+   * The security group (unique to the task) that allows the task to reach out
+   * over the network.
+   */
+  public get egressSecurityGroup(): ISecurityGroup {
+    return this._egressSecurityGroup;
+  }
+}
+
+/**
+ * The provider (lambdas and a waiter) behind all the one-shot tasks of a stack.
+ */
+class RunTaskOnDeployProvider extends Construct {
+  /**
+   * Return the provider of the stack of the scope - creating it on first use.
+   *
+   * @param scope
+   */
+  public static of(scope: Construct): RunTaskOnDeployProvider {
+    const stack = Stack.of(scope);
+
+    return (
+      (stack.node.tryFindChild(PROVIDER_ID) as RunTaskOnDeployProvider) ??
+      new RunTaskOnDeployProvider(stack, PROVIDER_ID)
+    );
+  }
+
+  private readonly _onEventHandler: lambda.Function;
+  private readonly _isCompleteHandler: lambda.Function;
+  private readonly _provider: cr.Provider;
+
+  private constructor(scope: Construct, id: string) {
+    super(scope, id);
+
+    const handler = (name: string, handler: string) =>
+      new lambda.Function(this, name, {
+        runtime: lambda.Runtime.NODEJS_20_X,
+        handler: handler,
+        code: lambda.Code.fromAsset(
+          path.join(__dirname, "run-task-on-deploy-lambda"),
+        ),
+        timeout: Duration.minutes(1),
+      });
+
+    this._onEventHandler = handler("OnEventHandler", "index.onEvent");
+    this._isCompleteHandler = handler("IsCompleteHandler", "index.isComplete");
+
+    this._provider = new cr.Provider(this, "Provider", {
+      onEventHandler: this._onEventHandler,
+      isCompleteHandler: this._isCompleteHandler,
+      // tasks need time to pull their image and start - and a bootstrap can wait for
+      // its database to become available
+      queryInterval: Duration.seconds(15),
+      totalTimeout: Duration.minutes(30),
+      logRetention: logs.RetentionDays.ONE_MONTH,
+    });
+  }
+
+  /**
+   * Allow the provider to run (and watch) the task in the cluster.
+   *
+   * @param cluster
+   * @param taskDefinition
+   */
+  public grantRunTask(
+    cluster: ICluster,
+    taskDefinition: FargateTaskDefinition,
+  ) {
+    this._onEventHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:RunTask"],
+        resources: [taskDefinition.taskDefinitionArn],
+      }),
+    );
+
+    const passRoles = [taskDefinition.taskRole.roleArn];
+
+    if (taskDefinition.executionRole)
+      passRoles.push(taskDefinition.executionRole.roleArn);
+
+    this._onEventHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["iam:PassRole"],
+        resources: passRoles,
+      }),
+    );
+
+    this._isCompleteHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:DescribeTasks"],
+        resources: ["*"],
+        conditions: {
+          ArnEquals: { "ecs:cluster": cluster.clusterArn },
+        },
+      }),
+    );
+  }
+
+  public get serviceToken(): string {
+    return this._provider.serviceToken;
+  }
+}
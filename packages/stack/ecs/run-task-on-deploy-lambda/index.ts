@@ -0,0 +1,116 @@
+// The handlers of a custom resource (using the CDK provider framework) that runs a
+// one-shot Fargate task on deployment. The onEvent handler starts the task - and the
+// isComplete handler is then polled by the framework until the task has stopped, failing
+// the deployment if the task did not exit cleanly.
+// https://docs.aws.amazon.com/cdk/api/v2/docs/aws-cdk-lib.custom_resources-readme.html#provider-framework
+import type { CloudFormationCustomResourceEvent } from "aws-lambda";
+import {
+  DescribeTasksCommand,
+  ECSClient,
+  RunTaskCommand,
+  Task,
+} from "@aws-sdk/client-ecs";
+
+const ecs = new ECSClient({});
+
+/**
+ * The properties of the custom resource - all the details needed to
+ * run the task.
+ */
+export type RunTaskProperties = {
+  Cluster: string;
+  TaskDefinition: string;
+  Subnets: string[];
+  SecurityGroups: string[];
+};
+
+type RunTaskEvent = CloudFormationCustomResourceEvent & {
+  ResourceProperties: RunTaskProperties;
+};
+
+// the isComplete handler gets the event along with the response from onEvent
+type RunTaskCompleteEvent = RunTaskEvent & {
+  PhysicalResourceId: string;
+};
+
+export async function onEvent(event: RunTaskEvent) {
+  // there is nothing to undo for a one-shot task
+  if (event.RequestType === "Delete")
+    return { PhysicalResourceId: event.PhysicalResourceId };
+
+  const props = event.ResourceProperties;
+
+  const run = await ecs.send(
+    new RunTaskCommand({
+      cluster: props.Cluster,
+      taskDefinition: props.TaskDefinition,
+      launchType: "FARGATE",
+      count: 1,
+      networkConfiguration: {
+        awsvpcConfiguration: {
+          subnets: props.Subnets,
+          securityGroups: props.SecurityGroups,
+          assignPublicIp: "DISABLED",
+        },
+      },
+    }),
+  );
+
+  const taskArn = run.tasks?.[0]?.taskArn;
+
+  if (!taskArn)
+    throw new Error(
+      `Failed to start the task ${props.TaskDefinition} ${JSON.stringify(
+        run.failures,
+      )}`,
+    );
+
+  // every run is a new task - so the (ignored) delete of the previous physical id
+  // is all that happens to an earlier run
+  return { PhysicalResourceId: taskArn };
+}
+
+export async function isComplete(event: RunTaskCompleteEvent) {
+  if (event.RequestType === "Delete") return { IsComplete: true };
+
+  const described = await ecs.send(
+    new DescribeTasksCommand({
+      cluster: event.ResourceProperties.Cluster,
+      tasks: [event.PhysicalResourceId],
+    }),
+  );
+
+  const task = described.tasks?.[0];
+
+  if (!task)
+    throw new Error(
+      `The task ${event.PhysicalResourceId} could not be found ${JSON.stringify(
+        described.failures,
+      )}`,
+    );
+
+  return { IsComplete: taskOutcome(task) };
+}
+
+/**
+ * Return whether the task has finished successfully (true) or is still
+ * running (false) - or throw an error if the task failed.
+ *
+ * @param task the task as described by ECS
+ */
+export function taskOutcome(task: Task): boolean {
+  if (task.lastStatus !== "STOPPED") return false;
+
+  // a container that never started (i.e. an image that could not be pulled) has no exit code
+  for (const container of task.containers ?? [])
+    if (container.exitCode !== 0)
+      throw new Error(
+        `The task ${task.taskArn} failed - container ${
+          container.name
+        } exited with ${container.exitCode ?? "no exit code"} (${
+          container.reason ?? task.stoppedReason
+        })`,
+      );
+
+  return true;
+}
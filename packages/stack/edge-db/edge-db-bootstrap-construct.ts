@@ -0,0 +1,233 @@
+import {
+  aws_ec2 as ec2,
+  aws_ecs as ecs,
+  aws_iam as iam,
+  aws_logs as logs,
+  aws_secretsmanager as secretsmanager,
+} from "aws-cdk-lib";
+import { Construct } from "constructs";
+import {
+  CpuArchitecture,
+  FargateTaskDefinition,
+  ICluster,
+  LogDrivers,
+  OperatingSystemFamily,
+} from "aws-cdk-lib/aws-ecs";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { ISecurityGroup } from "aws-cdk-lib/aws-ec2";
+import { cdkIdSafeName } from "../cdk-id-safe-name";
+import { RunTaskOnDeployConstruct } from "../ecs/run-task-on-deploy-construct";
+import { EdgeDbFlavour } from "./edge-db-flavour";
+
+/**
+ * A collection of props that are set in the highest level EdgeDb construct
+ * but which are then passed through to this construct.
+ */
+export type EdgeDbBootstrapPassthroughProps = {
+  // the names of databases (branches in EdgeDb 5+) to create
+  databases: string[];
+
+  // the names of non-superuser roles to create - each with their own secret
+  roles: string[];
+};
+
+type Props = EdgeDbBootstrapPassthroughProps & {
+  // the VPC that the bootstrap task will run in
+  vpc: ec2.IVpc;
+
+  // a prefix that is used for constructing AWS secrets for the roles
+  secretsPrefix: string;
+
+  // purely for information/descriptive purposes - the friendly short name of
+  // the RDS instance we are wrapping
+  rdsDatabaseDisplayName: string;
+
+  // purely for secret naming purposes - the CDK safe id derived from
+  // our RDS database name
+  rdsDatabaseCdkIdSafeDbName: string;
+
+  // the cluster of the EdgeDb service - our one-shot task runs alongside
+  cluster: ICluster;
+
+  // the image of the EdgeDb service (which includes the EdgeDb CLI)
+  image: ecs.ContainerImage;
+
+  // the CPU architecture the image of the EdgeDb service is run on
+  cpuArchitecture: CpuArchitecture;
+
+  // whether the image is EdgeDb or Gel - which changes the CLI and its environment variable names
+  flavour: EdgeDbFlavour;
+
+  // edge db version string e.g. "2.3" - used to decide between databases and branches
+  edgeDbVersion: string;
+
+  // the DSN (without password) of the EdgeDb superuser via the protocol load balancer
+  dsnNoPassword: string;
+
+  // the secret holding the EdgeDb superuser password
+  superUserSecret: ISecret;
+
+  // the security group that allows access to the EdgeDb service
+  serviceSecurityGroup: ISecurityGroup;
+
+  // how long the logs of the task are kept for
+  logRetention: logs.RetentionDays;
+};
+
+/**
+ * A one-shot Fargate task (run on every deployment that changes it) that
+ * creates databases and non-superuser roles in an EdgeDb service. The task is idempotent - existing databases are left alone
+ * and existing roles have their password reset to that of their secret. The deployment waits for the
+ * task - so a step that fails (or an EdgeDb that does not become available) fails the deployment.
+ */
+export class EdgeDbBootstrapConstruct extends Construct {
+  private readonly _roleSecrets: { [role: string]: ISecret } = {};
+  private readonly _egressSecurityGroup: ISecurityGroup;
+
+  constructor(scope: Construct, id: string, props: Props) {
+    super(scope, id);
+
+    // the names are embedded directly in EdgeQL (and shell) so we are strict on what they can be
+    for (const name of [...props.databases, ...props.roles])
+      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name))
+        throw new Error(
+          `The EdgeDb bootstrap name ${name} must be made up of only letters, digits and underscores`,
+        );
+
+    // each role has its own secret (named from the role) - so roles cannot differ only in case
+    const roleIds = props.roles.map((role) => cdkIdSafeName(role));
+
+    for (const [i, roleId] of roleIds.entries())
+      if (roleIds.indexOf(roleId) !== i)
+        throw new Error(
+          `The EdgeDb bootstrap role ${props.roles[i]} is too similar to role ${
+            props.roles[roleIds.indexOf(roleId)]
+          } (names must differ by more than case or punctuation)`,
+        );
+
+    const useBranches = parseInt(props.edgeDbVersion, 10) >= 5;
+
+    const executionRole = new iam.Role(this, "ExecutionRole", {
+      assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName(
+          "service-role/AmazonECSTaskExecutionRolePolicy",
+        ),
+      ],
+    });
+
+    const taskDefinition = new FargateTaskDefinition(this, "TaskDefinition", {
+      runtimePlatform: {
+        operatingSystemFamily: OperatingSystemFamily.LINUX,
+        cpuArchitecture: props.cpuArchitecture,
+      },
+      memoryLimitMiB: 512,
+      cpu: 256,
+      executionRole: executionRole,
+      family: "edge-db-bootstrap-family",
+    });
+
+    // i.e. EDGEDB or GEL
+    const prefix = props.flavour.environmentPrefix;
+    const cli = props.flavour.cli;
+
+    const secrets: { [k: string]: ecs.Secret } = {
+      [`${prefix}_PASSWORD`]: ecs.Secret.fromSecretsManager(
+        props.superUserSecret,
+      ),
+    };
+
+    const script: string[] = [
+      "set -e",
+      // the first connection waits for the EdgeDb service to come up behind the load balancer
+      `${cli} --wait-until-available=5m query "select 1" > /dev/null`,
+    ];
+
+    for (const database of props.databases) {
+      const exists = useBranches
+        ? `select exists(select sys::Branch filter .name = '${database}')`
+        : `select exists(select sys::Database filter .name = '${database}')`;
+      const create = useBranches
+        ? `create empty branch ${database}`
+        : `create database ${database}`;
+
+      script.push(
+        `if [ "$(${cli} query --output-format=tab-separated "${exists}")" = "false" ]; then ${cli} query "${create}"; fi`,
+      );
+    }
+
+    for (const [i, role] of props.roles.entries()) {
+      const roleSecret = new secretsmanager.Secret(
+        this,
+        `${cdkIdSafeName(role)}Secret`,
+        {
+          description: `For database ${props.rdsDatabaseDisplayName} - secret containing the password of EdgeDb role ${role}`,
+          secretName: `${props.secretsPrefix}${
+            props.rdsDatabaseCdkIdSafeDbName
+          }EdgeDb${cdkIdSafeName(role)}`,
+          generateSecretString: {
+            excludePunctuation: true,
+          },
+        },
+      );
+
+      this._roleSecrets[role] = roleSecret;
+
+      // the environment variable is by position - so that names differing only in case
+      // can never share a variable
+      const passwordEnv = `ROLE_${i}_PASSWORD`;
+
+      secrets[passwordEnv] = ecs.Secret.fromSecretsManager(roleSecret);
+
+      // roles created like this are not superusers
+      script.push(
+        `if [ "$(${cli} query --output-format=tab-separated "select exists(select sys::Role filter .name = '${role}')")" = "true" ]; ` +
+          `then ${cli} query "alter role ${role} { set password := '$${passwordEnv}' }"; ` +
+          `else ${cli} query "create role ${role} { set password := '$${passwordEnv}' }"; fi`,
+      );
+    }
+
+    taskDefinition.addContainer("edge-db-bootstrap", {
+      image: props.image,
+      entryPoint: ["/bin/sh", "-c"],
+      command: [script.join("\n")],
+      environment: {
+        [`${prefix}_DSN`]: props.dsnNoPassword,
+        // the EdgeDb service only has a self-signed cert
+        [`${prefix}_CLIENT_TLS_SECURITY`]: "insecure",
+      },
+      secrets: secrets,
+      logging: LogDrivers.awsLogs({
+        streamPrefix: "edge-db-bootstrap",
+        logGroup: new logs.LogGroup(this, "TaskLog", {
+          retention: props.logRetention,
+        }),
+      }),
+    });
+
+    // every change to the databases or roles changes the task definition - and so
+    // causes the task to be run again
+    const runTask = new RunTaskOnDeployConstruct(this, "RunTask", {
+      vpc: props.vpc,
+      cluster: props.cluster,
+      taskDefinition: taskDefinition,
+      securityGroups: [props.serviceSecurityGroup],
+    });
+
+    this._egressSecurityGroup = runTask.egressSecurityGroup;
+  }
+
+  /**
+   * The secrets holding the passwords of the bootstrapped roles - by role name.
+   */
+  public get roleSecrets(): { [role: string]: ISecret } {
+    return this._roleSecrets;
+  }
+
+  /**
+   * The security group that allows the bootstrap task to reach out over the network.
+   */
+  public get egressSecurityGroup(): ISecurityGroup {
+    return this._egressSecurityGroup;
+  }
+}
@@ -2,6 +2,8 @@ import {
   aws_ec2 as ec2,
   aws_secretsmanager as secretsmanager,
   CfnOutput,
+  Duration,
+  Names,
 } from "aws-cdk-lib";
 import { Construct } from "constructs";
 import {
@@ -18,6 +20,19 @@ import {
   EdgeDbLoadBalancerUiPassthroughProps,
 } from "./edge-db-load-balancer-ui-construct";
 import { ISecurityGroup } from "aws-cdk-lib/aws-ec2";
+import {
+  EdgeDbBootstrapConstruct,
+  EdgeDbBootstrapPassthroughProps,
+} from "./edge-db-bootstrap-construct";
+import { EdgeDbRotationConstruct } from "./edge-db-rotation-construct";
+import { FargateService } from "aws-cdk-lib/aws-ecs";
+import { NetworkTargetGroup } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import {
+  CfnScalingPolicy,
+  PredefinedMetric,
+  ScalableTarget,
+  ServiceNamespace,
+} from "aws-cdk-lib/aws-applicationautoscaling";
 
 export interface EdgeDbProps {
   // a prefix that is used for constructing AWS secrets for edgedb
@@ -41,8 +56,29 @@ export interface EdgeDbProps {
   // the configuration of the internal network load balancer that provides EdgeDb protocol access
   edgeDbLoadBalancerProtocol: EdgeDbLoadBalancerProtocolPassthroughProps;
 
-  // if present, configures a public UI for the EdgeDb instance
+  // if present, configures a public (or private) UI for the EdgeDb instance
   edgeDbLoadBalancerUi?: EdgeDbLoadBalancerUiPassthroughProps;
+
+  // if present, configures a one-shot task that creates databases and roles in the EdgeDb
+  edgeDbBootstrap?: EdgeDbBootstrapPassthroughProps;
+
+  // if present, rotates the superuser password on this schedule
+  rotateSuperUserPasswordAfter?: Duration;
+
+  // if present, scales the number of EdgeDb tasks
+  edgeDbAutoScaling?: EdgeDbAutoScalingProps;
+}
+
+export interface EdgeDbAutoScalingProps {
+  // the range of the number of tasks
+  minCount: number;
+  maxCount: number;
+
+  // the average CPU utilization (percent) of the tasks to scale to
+  cpuUtilization?: number;
+
+  // the number of active load balancer connections per healthy task to scale to
+  connectionsPerTask?: number;
 }
 
 /**
@@ -51,8 +87,14 @@ export interface EdgeDbProps {
  */
 export class EdgeDbConstruct extends Construct {
   private readonly _dsn: string;
+  private readonly _hostname: string;
+  private readonly _port: number;
   private readonly _edgeDbPasswordSecret: ISecret;
   private readonly _edgeDbSecurityGroup: ISecurityGroup;
+  private readonly _roleSecrets: { [role: string]: ISecret } = {};
+  private readonly _egressSecurityGroups: ISecurityGroup[] = [];
+  private readonly _service: FargateService;
+  private readonly _protocolTargetGroup: NetworkTargetGroup;
 
   constructor(scope: Construct, id: string, props: EdgeDbProps) {
     super(scope, id);
@@ -77,6 +119,7 @@ export class EdgeDbConstruct extends Construct {
     });
 
     this._edgeDbSecurityGroup = edgeDbService.securityGroup;
+    this._service = edgeDbService.service;
 
     const edgeDbLoadBalancer = new EdgeDbLoadBalancerProtocolConstruct(
       this,
@@ -90,18 +133,84 @@ export class EdgeDbConstruct extends Construct {
       },
     );
 
+    this._protocolTargetGroup = edgeDbLoadBalancer.targetGroup;
+
+    if (props.edgeDbAutoScaling)
+      this.addAutoScaling(
+        edgeDbService.service,
+        edgeDbLoadBalancer,
+        props.edgeDbAutoScaling,
+      );
+
+    this._hostname = edgeDbLoadBalancer.dnsName;
+    this._port = props.edgeDbLoadBalancerProtocol.tcpPassthroughPort;
+
     const edgeDbPortString =
       props.edgeDbLoadBalancerProtocol.tcpPassthroughPort != 5656
         ? `:${props.edgeDbLoadBalancerProtocol.tcpPassthroughPort}`
         : "";
 
-    this._dsn = `edgedb://${props.edgeDbService.superUser}@${edgeDbLoadBalancer.dnsName}${edgeDbPortString}`;
+    // i.e. edgedb:// or gel://
+    this._dsn = `${props.edgeDbService.flavour.dsnScheme}://${props.edgeDbService.superUser}@${edgeDbLoadBalancer.dnsName}${edgeDbPortString}`;
 
     new CfnOutput(this, "EdgeDbDsnNoPasswordOrDatabase", {
       value: this._dsn,
     });
 
-    // only in development mode is the UI switched on and accessible
+    if (props.edgeDbBootstrap) {
+      const edgeDbBootstrap = new EdgeDbBootstrapConstruct(
+        this,
+        "EdgeDbBootstrap",
+        {
+          vpc: props.vpc,
+          secretsPrefix: props.secretsPrefix,
+          rdsDatabaseDisplayName: props.rdsDatabaseDisplayName,
+          rdsDatabaseCdkIdSafeDbName: props.rdsDatabaseCdkIdSafeDbName,
+          cluster: edgeDbService.cluster,
+          image: edgeDbService.image,
+          cpuArchitecture: props.edgeDbService.cpuArchitecture,
+          flavour: props.edgeDbService.flavour,
+          edgeDbVersion: props.edgeDbService.edgeDbVersion,
+          dsnNoPassword: this._dsn,
+          superUserSecret: this._edgeDbPasswordSecret,
+          serviceSecurityGroup: edgeDbService.securityGroup,
+          logRetention: props.edgeDbService.logRetention,
+          ...props.edgeDbBootstrap,
+        },
+      );
+
+      // the bootstrap can only happen once the service is up and reachable
+      edgeDbBootstrap.node.addDependency(edgeDbService, edgeDbLoadBalancer);
+
+      this._roleSecrets = edgeDbBootstrap.roleSecrets;
+      this._egressSecurityGroups.push(edgeDbBootstrap.egressSecurityGroup);
+    }
+
+    if (props.rotateSuperUserPasswordAfter) {
+      const edgeDbRotation = new EdgeDbRotationConstruct(
+        this,
+        "EdgeDbRotation",
+        {
+          vpc: props.vpc,
+          cluster: edgeDbService.cluster,
+          service: edgeDbService.service,
+          image: edgeDbService.image,
+          cpuArchitecture: props.edgeDbService.cpuArchitecture,
+          flavour: props.edgeDbService.flavour,
+          dsnNoPassword: this._dsn,
+          superUser: props.edgeDbService.superUser,
+          superUserSecret: this._edgeDbPasswordSecret,
+          serviceSecurityGroup: edgeDbService.securityGroup,
+          logRetention: props.edgeDbService.logRetention,
+          automaticallyAfter: props.rotateSuperUserPasswordAfter,
+        },
+      );
+
+      this._egressSecurityGroups.push(edgeDbRotation.egressSecurityGroup);
+    }
+
+    // the UI is only switched on and accessible when asked for - publicly (in development or when
+    // restricted to an allow-list) or privately (inside the VPC)
     if (props.edgeDbLoadBalancerUi) {
       const edgeDbLoadBalancerUi = new EdgeDbLoadBalancerUiConstruct(
         this,
@@ -125,10 +234,115 @@ export class EdgeDbConstruct extends Construct {
     }
   }
 
+  /**
+   * Scale the EdgeDb service with target tracking on CPU and/or connections.
+   *
+   * @param service the EdgeDb service
+   * @param loadBalancer the protocol load balancer in front of the service
+   * @param scaling the range of tasks and the targets
+   * @private
+   */
+  private addAutoScaling(
+    service: FargateService,
+    loadBalancer: EdgeDbLoadBalancerProtocolConstruct,
+    scaling: EdgeDbAutoScalingProps,
+  ) {
+    // the scalable target is made directly (rather than with autoScaleTaskCount) so that
+    // it can be shared with a policy that CDK cannot express (see below)
+    const scalableTarget = new ScalableTarget(this, "ScalableTarget", {
+      serviceNamespace: ServiceNamespace.ECS,
+      scalableDimension: "ecs:service:DesiredCount",
+      resourceId: `service/${service.cluster.clusterName}/${service.serviceName}`,
+      minCapacity: scaling.minCount,
+      maxCapacity: scaling.maxCount,
+    });
+
+    if (scaling.cpuUtilization)
+      scalableTarget.scaleToTrackMetric("CpuScaling", {
+        predefinedMetric: PredefinedMetric.ECS_SERVICE_AVERAGE_CPU_UTILIZATION,
+        targetValue: scaling.cpuUtilization,
+      });
+
+    if (scaling.connectionsPerTask) {
+      // target tracking needs a metric that goes down as tasks are added - so we track the
+      // connections *per healthy task*. The L2 target tracking policy does not support metric
+      // math - so this policy is built at the CloudFormation level
+      const dimensions = [
+        {
+          name: "LoadBalancer",
+          value: loadBalancer.loadBalancer.loadBalancerFullName,
+        },
+      ];
+
+      new CfnScalingPolicy(this, "ConnectionScaling", {
+        policyName: `${Names.uniqueId(this)}ConnectionScaling`,
+        policyType: "TargetTrackingScaling",
+        scalingTargetId: scalableTarget.scalableTargetId,
+        targetTrackingScalingPolicyConfiguration: {
+          targetValue: scaling.connectionsPerTask,
+          customizedMetricSpecification: {
+            metrics: [
+              {
+                id: "flows",
+                metricStat: {
+                  metric: {
+                    namespace: "AWS/NetworkELB",
+                    metricName: "ActiveFlowCount",
+                    dimensions: dimensions,
+                  },
+                  stat: "Average",
+                },
+                returnData: false,
+              },
+              {
+                id: "healthy",
+                metricStat: {
+                  metric: {
+                    namespace: "AWS/NetworkELB",
+                    metricName: "HealthyHostCount",
+                    dimensions: [
+                      ...dimensions,
+                      {
+                        name: "TargetGroup",
+                        value: this._protocolTargetGroup.targetGroupFullName,
+                      },
+                    ],
+                  },
+                  stat: "Minimum",
+                },
+                returnData: false,
+              },
+              {
+                id: "connectionsPerTask",
+                expression: "flows / MAX([healthy, 1])",
+                label: "Active connections per healthy task",
+                returnData: true,
+              },
+            ],
+          },
+        },
+      });
+    }
+  }
+
   public get dsnForEnvironmentVariable(): string {
     return this._dsn;
   }
 
+  /**
+   * The hostname of the protocol load balancer in front of the EdgeDb service.
+   */
+  public get hostname(): string {
+    return this._hostname;
+  }
+
+  /**
+   * The port of the protocol load balancer in front of the EdgeDb service.
+   */
+  public get port(): number {
+    return this._port;
+  }
+
   public get passwordSecret(): ISecret {
     return this._edgeDbPasswordSecret;
   }
@@ -136,4 +350,33 @@ export class EdgeDbConstruct extends Construct {
   public get securityGroup(): ISecurityGroup {
     return this._edgeDbSecurityGroup;
   }
+
+  /**
+   * The Fargate service running EdgeDb.
+   */
+  public get service(): FargateService {
+    return this._service;
+  }
+
+  /**
+   * The target group (of the EdgeDb service) behind the protocol load balancer.
+   */
+  public get protocolTargetGroup(): NetworkTargetGroup {
+    return this._protocolTargetGroup;
+  }
+
+  /**
+   * The secrets of any non-superuser roles created by the bootstrap - by role name.
+   */
+  public get roleSecrets(): { [role: string]: ISecret } {
+    return this._roleSecrets;
+  }
+
+  /**
+   * The security groups of the bootstrap and rotation tasks (if any) that reach
+   * out to AWS APIs.
+   */
+  public get egressSecurityGroups(): ISecurityGroup[] {
+    return this._egressSecurityGroups;
+  }
 }
@@ -0,0 +1,42 @@
+/**
+ * The differences between the releases of EdgeDb as EdgeDb - and the
+ * newer releases as Gel (the renamed EdgeDb).
+ */
+export type EdgeDbFlavour = {
+  // the repository of the server images (on Docker Hub)
+  imageRepository: string;
+
+  // the prefix of the environment variables of the server and CLI i.e. EDGEDB_SERVER_USER
+  environmentPrefix: string;
+
+  // the scheme of DSNs i.e. edgedb://
+  dsnScheme: string;
+
+  // the name of the CLI (which is included in the server images)
+  cli: string;
+};
+
+// https://hub.docker.com/r/edgedb/edgedb/tags
+export const EDGE_DB_FLAVOUR: EdgeDbFlavour = {
+  imageRepository: "edgedb/edgedb",
+  environmentPrefix: "EDGEDB",
+  dsnScheme: "edgedb",
+  cli: "edgedb",
+};
+
+// https://hub.docker.com/r/geldata/gel/tags
+export const GEL_FLAVOUR: EdgeDbFlavour = {
+  imageRepository: "geldata/gel",
+  environmentPrefix: "GEL",
+  dsnScheme: "gel",
+  cli: "gel",
+};
+
+/**
+ * Return the flavour for the given flavour name - defaulting to EdgeDb.
+ *
+ * @param flavour the flavour setting of the EdgeDb
+ */
+export function edgeDbFlavour(flavour?: "edgedb" | "gel"): EdgeDbFlavour {
+  return flavour === "gel" ? GEL_FLAVOUR : EDGE_DB_FLAVOUR;
+}
@@ -0,0 +1,68 @@
+import { Stack } from "aws-cdk-lib";
+import { EdgeDbCommon } from "../infrastructure-stack-database-props";
+import { edgeDbFlavour } from "./edge-db-flavour";
+
+// an image in a private ECR registry (including pull through caches) i.e.
+// 123456789012.dkr.ecr.ap-southeast-2.amazonaws.com/docker-hub/edgedb/edgedb:3.4
+const ECR_IMAGE_URI =
+  /^(\d{12})\.dkr\.ecr\.([a-z0-9-]+)\.amazonaws\.com(?:\.cn)?\/([^:@]+)/;
+
+const IMAGE_DIGEST = /^sha256:[0-9a-f]{64}$/;
+
+/**
+ * Return the full image URI for the EdgeDb settings - or throw an error if
+ * the image settings cannot be used together.
+ *
+ * @param name the name of the database the EdgeDb is in front of
+ * @param edgeDb the EdgeDb settings
+ */
+export function edgeDbImageUri(name: string, edgeDb: EdgeDbCommon): string {
+  if (edgeDb.imageUri) {
+    if (edgeDb.imageRepository || edgeDb.imageDigest)
+      throw new Error(
+        `The EdgeDb of database ${name} has an imageUri so cannot also set imageRepository or imageDigest (the imageUri can include a digest)`,
+      );
+
+    return edgeDb.imageUri;
+  }
+
+  // the repository used when none is asked for (on Docker Hub)
+  const repository =
+    edgeDb.imageRepository ?? edgeDbFlavour(edgeDb.flavour).imageRepository;
+
+  if (edgeDb.imageDigest) {
+    if (!IMAGE_DIGEST.test(edgeDb.imageDigest))
+      throw new Error(
+        `The EdgeDb of database ${name} has an imageDigest ${edgeDb.imageDigest} that is not of the form sha256:<64 hex digits>`,
+      );
+
+    // the tag is kept for readability - the digest is what is pulled
+    return `${repository}:${edgeDb.version}@${edgeDb.imageDigest}`;
+  }
+
+  return `${repository}:${edgeDb.version}`;
+}
+
+/**
+ * Return the ARN of the ECR repository of the image URI - or undefined if
+ * the image is not from a private ECR registry.
+ *
+ * @param stack the stack (for the partition of the ARN)
+ * @param imageUri a full image URI
+ */
+export function ecrRepositoryArn(
+  stack: Stack,
+  imageUri: string,
+): string | undefined {
+  const match = ECR_IMAGE_URI.exec(imageUri);
+
+  if (!match) return undefined;
+
+  return stack.formatArn({
+    service: "ecr",
+    account: match[1],
+    region: match[2],
+    resource: "repository",
+    resourceName: match[3],
+  });
+}
@@ -4,6 +4,7 @@ import { FargateService } from "aws-cdk-lib/aws-ecs";
 import {
   CfnLoadBalancer,
   NetworkLoadBalancer,
+  NetworkTargetGroup,
   Protocol,
 } from "aws-cdk-lib/aws-elasticloadbalancingv2";
 import { ISecurityGroup, SecurityGroup, SubnetType } from "aws-cdk-lib/aws-ec2";
@@ -35,6 +36,7 @@ type Props = EdgeDbLoadBalancerProtocolPassthroughProps & {
  */
 export class EdgeDbLoadBalancerProtocolConstruct extends Construct {
   private readonly _lb: NetworkLoadBalancer;
+  private readonly _targetGroup: NetworkTargetGroup;
 
   constructor(scope: Construct, id: string, props: Props) {
     super(scope, id);
@@ -79,7 +81,7 @@ export class EdgeDbLoadBalancerProtocolConstruct extends Construct {
       protocol: Protocol.TCP,
     });
 
-    const tg = tcpListener.addTargets("TcpTargetGroup", {
+    this._targetGroup = tcpListener.addTargets("TcpTargetGroup", {
       port: props.servicePort,
       protocol: Protocol.TCP,
       targets: [props.service],
@@ -90,9 +92,9 @@ export class EdgeDbLoadBalancerProtocolConstruct extends Construct {
 
     // whilst all the IPs hitting us will be internal IPs - we prefer to be logging the actual IPs
     // of the client rather than the NLB interface IPs
-    tg.setAttribute("preserve_client_ip.enabled", "true");
+    this._targetGroup.setAttribute("preserve_client_ip.enabled", "true");
 
-    tg.configureHealthCheck({
+    this._targetGroup.configureHealthCheck({
       enabled: true,
       interval: Duration.seconds(10),
       timeout: Duration.seconds(5),
@@ -105,6 +107,10 @@ export class EdgeDbLoadBalancerProtocolConstruct extends Construct {
     return this._lb;
   }
 
+  public get targetGroup(): NetworkTargetGroup {
+    return this._targetGroup;
+  }
+
   public get dnsName(): string {
     return this._lb.loadBalancerDnsName;
   }
@@ -8,15 +8,27 @@ import {
   SslPolicy,
 } from "aws-cdk-lib/aws-elasticloadbalancingv2";
 import { ICertificate } from "aws-cdk-lib/aws-certificatemanager";
-import { ARecord, IHostedZone, RecordTarget } from "aws-cdk-lib/aws-route53";
+import {
+  ARecord,
+  IHostedZone,
+  PrivateHostedZone,
+  RecordTarget,
+} from "aws-cdk-lib/aws-route53";
 import { ISecurityGroup, SecurityGroup, SubnetType } from "aws-cdk-lib/aws-ec2";
 import { LoadBalancerTarget } from "aws-cdk-lib/aws-route53-targets";
 
 export type EdgeDbLoadBalancerUiPassthroughProps = {
+  // whether the UI is on the internet (in public subnets) - or only reachable
+  // inside the VPC (with a private DNS record)
+  internetFacing: boolean;
+
   hostedPort: number;
   hostedPrefix: string;
   hostedZone: IHostedZone;
   hostedCertificate: ICertificate;
+
+  // the peers that are allowed to reach the UI on the hosted port
+  allowedPeers: ec2.IPeer[];
 };
 
 type Props = EdgeDbLoadBalancerUiPassthroughProps & {
@@ -46,19 +58,24 @@ export class EdgeDbLoadBalancerUiConstruct extends Construct {
     this._lb = new NetworkLoadBalancer(this, "LoadBalancerUi", {
       vpc: props.vpc,
       vpcSubnets: {
-        subnetType: SubnetType.PUBLIC,
+        subnetType: props.internetFacing
+          ? SubnetType.PUBLIC
+          : SubnetType.PRIVATE_WITH_EGRESS,
       },
-      internetFacing: true,
+      internetFacing: props.internetFacing,
     });
 
     const nlbSecurityGroup = new SecurityGroup(this, "LbUiSecurityGroup", {
       vpc: props.vpc,
       allowAllOutbound: false,
       allowAllIpv6Outbound: false,
-      description:
-        "Security group allowing inbound internet traffic to the NLB (public SSL UI) and egress to the EdgeDb service on its port",
+      description: props.internetFacing
+        ? "Security group allowing inbound internet traffic to the NLB (public SSL UI) and egress to the EdgeDb service on its port"
+        : "Security group allowing inbound VPC traffic to the NLB (private SSL UI) and egress to the EdgeDb service on its port",
     });
-    nlbSecurityGroup.addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(443));
+    // the ingress needs to follow whatever port the listener is on
+    for (const peer of props.allowedPeers)
+      nlbSecurityGroup.addIngressRule(peer, ec2.Port.tcp(props.hostedPort));
     nlbSecurityGroup.addEgressRule(
       props.serviceSecurityGroup,
       ec2.Port.tcp(props.servicePort),
@@ -68,7 +85,7 @@ export class EdgeDbLoadBalancerUiConstruct extends Construct {
     // review at some point and replace this with proper CDK usage
     const cfnLb = this._lb.node.defaultChild as CfnLoadBalancer;
     cfnLb.addPropertyOverride("SecurityGroups", [
-      // allow internet access to the SSL port of the NLB to forward on to EdgeDb
+      // allow (allow-listed) access to the SSL port of the NLB to forward on to EdgeDb
       nlbSecurityGroup.securityGroupId,
       // put the NLB in a group that can access EdgeDb
       props.serviceSecurityGroup.securityGroupId,
@@ -107,11 +124,26 @@ export class EdgeDbLoadBalancerUiConstruct extends Construct {
     // WHAT WE WANT IT TO BE IS JUST OUR VPC CIDR
     tg.setAttribute("preserve_client_ip.enabled", "false");
 
-    new ARecord(this, "DNS", {
-      zone: props.hostedZone,
-      recordName: props.hostedPrefix,
-      target: RecordTarget.fromAlias(new LoadBalancerTarget(this._lb)),
-    });
+    if (props.internetFacing)
+      new ARecord(this, "DNS", {
+        zone: props.hostedZone,
+        recordName: props.hostedPrefix,
+        target: RecordTarget.fromAlias(new LoadBalancerTarget(this._lb)),
+      });
+    else {
+      // a private zone for *just* the UI name - so that inside the VPC it resolves to the
+      // internal NLB (and is still covered by the wildcard certificate) without shadowing any
+      // other names of the hosted zone
+      const privateZone = new PrivateHostedZone(this, "PrivateZone", {
+        zoneName: `${props.hostedPrefix}.${props.hostedZone.zoneName}`,
+        vpc: props.vpc,
+      });
+
+      new ARecord(this, "PrivateDNS", {
+        zone: privateZone,
+        target: RecordTarget.fromAlias(new LoadBalancerTarget(this._lb)),
+      });
+    }
 
     // our ALB DNS
     this._dns = `${props.hostedPrefix}.${props.hostedZone.zoneName}`;
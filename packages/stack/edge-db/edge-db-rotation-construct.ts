@@ -0,0 +1,210 @@
+import * as path from "path";
+import {
+  aws_ec2 as ec2,
+  aws_ecs as ecs,
+  aws_iam as iam,
+  aws_lambda as lambda,
+  aws_logs as logs,
+  Duration,
+} from "aws-cdk-lib";
+import { Construct } from "constructs";
+import {
+  CpuArchitecture,
+  FargateService,
+  FargateTaskDefinition,
+  ICluster,
+  LogDrivers,
+  OperatingSystemFamily,
+} from "aws-cdk-lib/aws-ecs";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { ISecurityGroup } from "aws-cdk-lib/aws-ec2";
+import { EdgeDbFlavour } from "./edge-db-flavour";
+
+type Props = {
+  // the VPC that the password task will run in
+  vpc: ec2.IVpc;
+
+  // the cluster and service of EdgeDb - the password task runs alongside
+  // and the service is restarted once the password is changed
+  cluster: ICluster;
+  service: FargateService;
+
+  // the image of the EdgeDb service (which includes the EdgeDb CLI)
+  image: ecs.ContainerImage;
+
+  // the CPU architecture the image of the EdgeDb service is run on
+  cpuArchitecture: CpuArchitecture;
+
+  // whether the image is EdgeDb or Gel - which changes the CLI and its environment variable names
+  flavour: EdgeDbFlavour;
+
+  // the DSN (without password) of the EdgeDb superuser via the protocol load balancer
+  dsnNoPassword: string;
+
+  // the edge db superuser name
+  superUser: string;
+
+  // the secret holding the EdgeDb superuser password
+  superUserSecret: ISecret;
+
+  // the security group that allows access to the EdgeDb service
+  serviceSecurityGroup: ISecurityGroup;
+
+  // how long the logs of the task are kept for
+  logRetention: logs.RetentionDays;
+
+  // how often to rotate the password
+  automaticallyAfter: Duration;
+};
+
+/**
+ * Rotation of the EdgeDb superuser password. There is no EdgeDb client in the Lambda
+ * runtime - so rather than the rotation lambda changing the password itself, it runs
+ * a one-shot Fargate task (with the EdgeDb CLI of the service image) that does an ALTER
+ * ROLE through the protocol load balancer, waits for the task to finish - and then
+ * restarts the EdgeDb service so that it picks up the new password.
+ */
+export class EdgeDbRotationConstruct extends Construct {
+  private readonly _egressSecurityGroup: ISecurityGroup;
+
+  constructor(scope: Construct, id: string, props: Props) {
+    super(scope, id);
+
+    const executionRole = new iam.Role(this, "ExecutionRole", {
+      assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName(
+          "service-role/AmazonECSTaskExecutionRolePolicy",
+        ),
+      ],
+    });
+
+    const taskDefinition = new FargateTaskDefinition(this, "TaskDefinition", {
+      runtimePlatform: {
+        operatingSystemFamily: OperatingSystemFamily.LINUX,
+        cpuArchitecture: props.cpuArchitecture,
+      },
+      memoryLimitMiB: 512,
+      cpu: 256,
+      executionRole: executionRole,
+      family: "edge-db-rotation-family",
+    });
+
+    // the task is idempotent - if the new password already works (i.e. a retry of a rotation
+    // step) then there is nothing to do
+    // i.e. EDGEDB or GEL
+    const prefix = props.flavour.environmentPrefix;
+    const cli = props.flavour.cli;
+
+    const script = [
+      "set -e",
+      `if ${prefix}_PASSWORD="$NEW_PASSWORD" ${cli} query "select 1" > /dev/null 2>&1; then echo "Password already changed"; exit 0; fi`,
+      `${cli} query "alter role ${props.superUser} { set password := '$NEW_PASSWORD' }"`,
+      `${prefix}_PASSWORD="$NEW_PASSWORD" ${cli} query "select 1" > /dev/null`,
+    ];
+
+    taskDefinition.addContainer("edge-db-rotation", {
+      image: props.image,
+      entryPoint: ["/bin/sh", "-c"],
+      command: [script.join("\n")],
+      environment: {
+        [`${prefix}_DSN`]: props.dsnNoPassword,
+        // the EdgeDb service only has a self-signed cert
+        [`${prefix}_CLIENT_TLS_SECURITY`]: "insecure",
+      },
+      secrets: {
+        [`${prefix}_PASSWORD`]: ecs.Secret.fromSecretsManager(
+          props.superUserSecret,
+        ),
+        NEW_PASSWORD: ecs.Secret.fromSecretsManagerVersion(
+          props.superUserSecret,
+          { versionStage: "AWSPENDING" },
+        ),
+      },
+      logging: LogDrivers.awsLogs({
+        streamPrefix: "edge-db-rotation",
+        logGroup: new logs.LogGroup(this, "TaskLog", {
+          retention: props.logRetention,
+        }),
+      }),
+    });
+
+    const taskSecurityGroup = new ec2.SecurityGroup(
+      this,
+      "EgressSecurityGroup",
+      {
+        vpc: props.vpc,
+        allowAllOutbound: true,
+        description:
+          "Security group that allows the EdgeDb password task to reach out over the network",
+      },
+    );
+
+    this._egressSecurityGroup = taskSecurityGroup;
+
+    // the lambda itself only talks to AWS APIs - so does not need to live in the VPC
+    const rotationLambda = new lambda.Function(this, "RotationLambda", {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: "index.handler",
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, "edge-db-rotation-lambda"),
+      ),
+      // the lambda waits (for up to 8 minutes) for the password task to start and finish
+      timeout: Duration.minutes(10),
+      logRetention: props.logRetention,
+      environment: {
+        CLUSTER_ARN: props.cluster.clusterArn,
+        TASK_DEFINITION_ARN: taskDefinition.taskDefinitionArn,
+        SERVICE_NAME: props.service.serviceName,
+        SUBNET_IDS: props.vpc
+          .selectSubnets({ subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS })
+          .subnetIds.join(","),
+        SECURITY_GROUP_IDS: [
+          taskSecurityGroup.securityGroupId,
+          props.serviceSecurityGroup.securityGroupId,
+        ].join(","),
+      },
+    });
+
+    rotationLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:RunTask"],
+        resources: [taskDefinition.taskDefinitionArn],
+      }),
+    );
+    rotationLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:DescribeTasks"],
+        resources: ["*"],
+        conditions: {
+          ArnEquals: { "ecs:cluster": props.cluster.clusterArn },
+        },
+      }),
+    );
+    rotationLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:UpdateService"],
+        resources: [props.service.serviceArn],
+      }),
+    );
+    rotationLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["iam:PassRole"],
+        resources: [executionRole.roleArn, taskDefinition.taskRole.roleArn],
+      }),
+    );
+
+    // CDK grants the lambda access to the secret itself
+    props.superUserSecret.addRotationSchedule("SuperUserPasswordRotation", {
+      rotationLambda: rotationLambda,
+      automaticallyAfter: props.automaticallyAfter,
+    });
+  }
+
+  /**
+   * The security group that allows the password task to reach out over the network.
+   */
+  public get egressSecurityGroup(): ISecurityGroup {
+    return this._egressSecurityGroup;
+  }
+}
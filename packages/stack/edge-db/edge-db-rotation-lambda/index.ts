@@ -0,0 +1,191 @@
+// A Secrets Manager rotation function for the EdgeDb superuser password.
+//
+// The function does not talk to EdgeDb itself - there is no EdgeDb client library in the
+// Lambda runtime (and the function does not live in the VPC). Instead the ALTER ROLE is done
+// by a one-shot Fargate task (using the EdgeDb CLI from the EdgeDb image) connecting through
+// the protocol load balancer - and this function orchestrates the standard rotation steps,
+// waiting for the task to finish.
+// https://docs.aws.amazon.com/secretsmanager/latest/userguide/rotate-secrets_lambda-functions.html
+import type { SecretsManagerRotationEvent } from "aws-lambda";
+import {
+  DescribeSecretCommand,
+  DescribeSecretCommandOutput,
+  GetRandomPasswordCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+  UpdateSecretVersionStageCommand,
+} from "@aws-sdk/client-secrets-manager";
+import {
+  DescribeTasksCommandOutput,
+  ECSClient,
+  RunTaskCommand,
+  UpdateServiceCommand,
+  waitUntilTasksStopped,
+} from "@aws-sdk/client-ecs";
+
+const secretsManager = new SecretsManagerClient({});
+const ecs = new ECSClient({});
+
+// the longest we wait for the password task - leaving time (within the 10 minute
+// lambda timeout) to report a task that does not stop
+const TASK_WAIT_SECONDS = 8 * 60;
+
+/**
+ * Return the value of an environment variable set by the rotation construct.
+ *
+ * @param name
+ */
+function env(name: string): string {
+  const value = process.env[name];
+
+  if (!value)
+    throw new Error(`The rotation lambda is missing the ${name} setting`);
+
+  return value;
+}
+
+export async function handler(event: SecretsManagerRotationEvent) {
+  const { SecretId: secretId, ClientRequestToken: token, Step: step } = event;
+
+  const metadata = await secretsManager.send(
+    new DescribeSecretCommand({ SecretId: secretId }),
+  );
+
+  if (!metadata.RotationEnabled)
+    throw new Error(`Secret ${secretId} is not enabled for rotation`);
+
+  const stages = metadata.VersionIdsToStages?.[token];
+
+  if (!stages)
+    throw new Error(
+      `Secret version ${token} has no stage for rotation of secret ${secretId}`,
+    );
+
+  // a retry of a rotation that has already finished
+  if (stages.includes("AWSCURRENT")) return;
+
+  if (!stages.includes("AWSPENDING"))
+    throw new Error(
+      `Secret version ${token} is not AWSPENDING for rotation of secret ${secretId}`,
+    );
+
+  switch (step) {
+    case "createSecret":
+      return createSecret(secretId, token);
+    case "setSecret":
+      return setSecret();
+    case "testSecret":
+      // the set task has already connected using the new password
+      return;
+    case "finishSecret":
+      return finishSecret(secretId, token, metadata);
+    default:
+      throw new Error(`Unknown rotation step ${step}`);
+  }
+}
+
+async function createSecret(secretId: string, token: string) {
+  try {
+    await secretsManager.send(
+      new GetSecretValueCommand({
+        SecretId: secretId,
+        VersionId: token,
+        VersionStage: "AWSPENDING",
+      }),
+    );
+
+    // a retry of a rotation that already has its pending password
+    return;
+  } catch (e) {
+    if ((e as Error).name !== "ResourceNotFoundException") throw e;
+  }
+
+  // the password must be of the same form as the original (see EdgeDbSecret)
+  const { RandomPassword } = await secretsManager.send(
+    new GetRandomPasswordCommand({ ExcludePunctuation: true }),
+  );
+
+  await secretsManager.send(
+    new PutSecretValueCommand({
+      SecretId: secretId,
+      ClientRequestToken: token,
+      SecretString: RandomPassword,
+      VersionStages: ["AWSPENDING"],
+    }),
+  );
+}
+
+async function setSecret() {
+  const cluster = env("CLUSTER_ARN");
+
+  // the task definition reads the AWSCURRENT and AWSPENDING passwords as its own secrets
+  const run = await ecs.send(
+    new RunTaskCommand({
+      cluster: cluster,
+      taskDefinition: env("TASK_DEFINITION_ARN"),
+      launchType: "FARGATE",
+      count: 1,
+      networkConfiguration: {
+        awsvpcConfiguration: {
+          subnets: env("SUBNET_IDS").split(","),
+          securityGroups: env("SECURITY_GROUP_IDS").split(","),
+          assignPublicIp: "DISABLED",
+        },
+      },
+    }),
+  );
+
+  const taskArn = run.tasks?.[0]?.taskArn;
+
+  if (!taskArn)
+    throw new Error(
+      `Failed to start the password task ${JSON.stringify(run.failures)}`,
+    );
+
+  // throws if the task has not stopped in time
+  const stopped = await waitUntilTasksStopped(
+    { client: ecs, maxWaitTime: TASK_WAIT_SECONDS },
+    { cluster: cluster, tasks: [taskArn] },
+  );
+
+  const task = (stopped.reason as DescribeTasksCommandOutput)?.tasks?.[0];
+
+  for (const container of task?.containers ?? [])
+    if (container.exitCode !== 0)
+      throw new Error(
+        `The password task ${taskArn} failed - container ${
+          container.name
+        } exited with ${container.exitCode ?? "no exit code"} (${
+          container.reason ?? task?.stoppedReason
+        })`,
+      );
+}
+
+async function finishSecret(
+  secretId: string,
+  token: string,
+  metadata: DescribeSecretCommandOutput,
+) {
+  const currentVersion = Object.entries(metadata.VersionIdsToStages ?? {}).find(
+    ([, stages]) => stages.includes("AWSCURRENT"),
+  )?.[0];
+
+  await secretsManager.send(
+    new UpdateSecretVersionStageCommand({
+      SecretId: secretId,
+      VersionStage: "AWSCURRENT",
+      MoveToVersionId: token,
+      RemoveFromVersionId: currentVersion,
+    }),
+  );
+
+  // EdgeDb reads the password from the secret at startup - so we start new tasks
+  await ecs.send(
+    new UpdateServiceCommand({
+      cluster: env("CLUSTER_ARN"),
+      service: env("SERVICE_NAME"),
+      forceNewDeployment: true,
+    }),
+  );
+}
@@ -4,6 +4,7 @@ import {
   aws_iam as iam,
   aws_logs as logs,
   Duration,
+  Stack,
 } from "aws-cdk-lib";
 import { Construct } from "constructs";
 import {
@@ -16,6 +17,8 @@ import {
 } from "aws-cdk-lib/aws-ecs";
 import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
 import { ISecurityGroup, IVpc, SecurityGroup } from "aws-cdk-lib/aws-ec2";
+import { ecrRepositoryArn } from "./edge-db-image";
+import { EdgeDbFlavour } from "./edge-db-flavour";
 
 /**
  * A collection of props that are set in the highest level EdgeDb construct
@@ -33,12 +36,33 @@ export type EdgeDbServicePassthroughProps = {
   cpu: number;
   memory: number;
 
+  // if present, stops (and optionally rolls back) deployments that fail to reach a steady state
+  circuitBreaker?: ecs.DeploymentCircuitBreaker;
+
   // the edge db superuser name
   superUser: string;
 
-  // edge db version string for the docker image used for edge db e.g. "2.3"
+  // edge db version string e.g. "2.3"
   edgeDbVersion: string;
 
+  // the full URI of the EdgeDb image (i.e. edgedb/edgedb:2.3)
+  imageUri: string;
+
+  // whether the image is EdgeDb or Gel - which changes the environment variable names
+  flavour: EdgeDbFlavour;
+
+  // the CPU architecture the EdgeDb image is run on
+  cpuArchitecture: CpuArchitecture;
+
+  // the log level of the EdgeDb server e.g. "debug" or "info"
+  logLevel: string;
+
+  // how long the logs of the service are kept for
+  logRetention: logs.RetentionDays;
+
+  // if present and true, switch on Container Insights for the cluster (i.e. for task count metrics)
+  containerInsights?: boolean;
+
   // if present and true, enable the EdgeDb feature flag to switch on the UI
   // NOTE there are other settings that need to be true for the UI to actually be on the internet!
   enableUiFeatureFlag?: boolean;
@@ -71,12 +95,15 @@ export class EdgeDbServiceConstruct extends Construct {
 
   private readonly _service: FargateService;
   private readonly _securityGroup: SecurityGroup;
+  private readonly _cluster: ecs.Cluster;
+  private readonly _image: ecs.ContainerImage;
 
   constructor(scope: Construct, id: string, props: EdgeDbServiceProps) {
     super(scope, id);
 
-    const cluster = new ecs.Cluster(this, "Cluster", {
+    this._cluster = new ecs.Cluster(this, "Cluster", {
       vpc: props.vpc,
+      containerInsights: props.containerInsights,
     });
 
     const executionRole = new iam.Role(this, "ExecutionRole", {
@@ -89,14 +116,26 @@ export class EdgeDbServiceConstruct extends Construct {
     });
 
     const clusterLogGroup = new logs.LogGroup(this, "ServiceLog", {
-      retention: logs.RetentionDays.ONE_WEEK,
+      retention: props.logRetention,
     });
 
-    // we do the task definition by hand as we have some specialised settings (ARM64 etc)
+    // images from private ECR pull through caches need extra permissions on the first pull
+    // (when the cache creates the repository and imports the upstream image)
+    const repositoryArn = ecrRepositoryArn(Stack.of(this), props.imageUri);
+
+    if (repositoryArn)
+      executionRole.addToPolicy(
+        new iam.PolicyStatement({
+          actions: ["ecr:CreateRepository", "ecr:BatchImportUpstreamImage"],
+          resources: [repositoryArn],
+        }),
+      );
+
+    // we do the task definition by hand as we have some specialised settings (architecture etc)
     const taskDefinition = new FargateTaskDefinition(this, "TaskDefinition", {
       runtimePlatform: {
         operatingSystemFamily: OperatingSystemFamily.LINUX,
-        cpuArchitecture: CpuArchitecture.ARM64,
+        cpuArchitecture: props.cpuArchitecture,
       },
       memoryLimitMiB: props.memory,
       cpu: props.cpu,
@@ -106,37 +145,39 @@ export class EdgeDbServiceConstruct extends Construct {
 
     const containerName = "edge-db";
 
+    // i.e. EDGEDB or GEL
+    const prefix = props.flavour.environmentPrefix;
+
     const env: { [k: string]: string } = {
-      EDGEDB_DOCKER_LOG_LEVEL: "debug",
+      [`${prefix}_DOCKER_LOG_LEVEL`]: props.logLevel,
       // the DSN (including postgres user/pw) pointing to the base database
-      EDGEDB_SERVER_BACKEND_DSN: props.baseDbDsn,
+      [`${prefix}_SERVER_BACKEND_DSN`]: props.baseDbDsn,
       // we allow the superuser name to be set
-      EDGEDB_SERVER_USER: props.superUser,
+      [`${prefix}_SERVER_USER`]: props.superUser,
       // we don't do edgedb certs at all - rely on self-signed always
       // when putting a TLS terminated network load balancer in front of this - we can
       // use a self-signed cert as the internal target TLS
       // NLBs are comfortable using self-signed certs purely for traffic encryption
       // https://kevin.burke.dev/kevin/aws-alb-validation-tls-reply/
       // that way we can avoid needing to manage custom certs/cas
-      EDGEDB_SERVER_TLS_CERT_MODE: "generate_self_signed",
+      [`${prefix}_SERVER_TLS_CERT_MODE`]: "generate_self_signed",
       // DO NOT ENABLE
       // EDGEDB_SERVER_DEFAULT_AUTH_METHOD: "Trust"
     };
 
     const secrets: { [k: string]: ecs.Secret } = {
       // CDK is smart enough to grant permissions to read these secrets to the execution role
-      EDGEDB_SERVER_PASSWORD: ecs.Secret.fromSecretsManager(
+      [`${prefix}_SERVER_PASSWORD`]: ecs.Secret.fromSecretsManager(
         props.superUserSecret,
       ),
     };
 
-    if (props.enableUiFeatureFlag) env.EDGEDB_SERVER_ADMIN_UI = "enabled";
+    if (props.enableUiFeatureFlag) env[`${prefix}_SERVER_ADMIN_UI`] = "enabled";
+
+    this._image = ecs.ContainerImage.fromRegistry(props.imageUri);
 
     taskDefinition.addContainer(containerName, {
-      // https://hub.docker.com/r/edgedb/edgedb/tags
-      image: ecs.ContainerImage.fromRegistry(
-        `edgedb/edgedb:${props.edgeDbVersion}`,
-      ),
+      image: this._image,
       environment: env,
       secrets: secrets,
       logging: LogDrivers.awsLogs({
@@ -158,8 +199,9 @@ export class EdgeDbServiceConstruct extends Construct {
       // even in dev mode we never want to assign public ips to the fargate service...
       // we *ALWAYS* want to access via network load balancer - and that NLB can either be internal or external
       assignPublicIp: false,
-      cluster: cluster,
+      cluster: this._cluster,
       desiredCount: props.desiredCount,
+      circuitBreaker: props.circuitBreaker,
       taskDefinition: taskDefinition,
       vpcSubnets: {
         // we need egress in order to fetch images?? if we setup with private link maybe avoid? one to investigate?
@@ -215,6 +257,14 @@ export class EdgeDbServiceConstruct extends Construct {
     return this._securityGroup;
   }
 
+  public get cluster(): ecs.ICluster {
+    return this._cluster;
+  }
+
+  public get image(): ecs.ContainerImage {
+    return this._image;
+  }
+
   public get servicePort(): number {
     return this.EDGE_DB_PORT;
   }
@@ -1,45 +1,117 @@
-import { ArnComponents, aws_route53 as route53, Stack } from "aws-cdk-lib";
+import {
+  ArnComponents,
+  ArnFormat,
+  aws_route53 as route53,
+  Stack,
+} from "aws-cdk-lib";
 import { StringParameter } from "aws-cdk-lib/aws-ssm";
-import { IVpc, SecurityGroup, Vpc, VpcAttributes } from "aws-cdk-lib/aws-ec2";
+import {
+  ISecurityGroup,
+  IVpc,
+  SecurityGroup,
+  Vpc,
+  VpcAttributes,
+} from "aws-cdk-lib/aws-ec2";
 import {
   HttpNamespace,
   IHttpNamespace,
 } from "aws-cdk-lib/aws-servicediscovery";
 import { Certificate, ICertificate } from "aws-cdk-lib/aws-certificatemanager";
 import { IHostedZone } from "aws-cdk-lib/aws-route53";
-import { Construct } from "constructs";
-import { PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { Construct, IConstruct } from "constructs";
+import { Grant, IGrantable, PolicyStatement } from "aws-cdk-lib/aws-iam";
 import {
-  certificateArnParameterName,
-  databaseEdgeDbSecurityGroupIdParameterName,
-  namespaceArnParameterName,
-  namespaceIdParameterName,
-  namespaceNameParameterName,
-  secretsManagerSecretsPrefixParameterName,
-  vpcAvailabilityZonesParameterName,
-  vpcIdParameterName,
-  vpcIsolatedSubnetIdsParameterName,
-  vpcIsolatedSubnetRouteTableIdsParameterName,
-  vpcPrivateSubnetIdsParameterName,
-  vpcPrivateSubnetRouteTableIdsParameterName,
-  vpcPublicSubnetIdsParameterName,
-  vpcPublicSubnetRouteTableIdsParameterName,
-} from "./parameter-names";
+  ArnParameterKey,
+  parameterPath,
+  StringListParameterKey,
+  StringParameterKey,
+} from "./parameter-manifest";
 import { ISecret, Secret } from "aws-cdk-lib/aws-secretsmanager";
 import { Bucket, IBucket } from "aws-cdk-lib/aws-s3";
+import { cdkIdSafeName } from "./cdk-id-safe-name";
+import { DatabaseProxy, IDatabaseProxy } from "aws-cdk-lib/aws-rds";
+import { BackupVault, IBackupVault } from "aws-cdk-lib/aws-backup";
 
 export interface DnsResult {
   readonly hostedZone: IHostedZone;
   readonly certificate: ICertificate;
 }
 
+export interface PostgresDatabaseResult {
+  readonly hostname: string;
+  readonly port: number;
+  readonly adminUser: string;
+  readonly dsnNoPassword: string;
+  readonly securityGroup: ISecurityGroup;
+  readonly adminPasswordSecret: ISecret;
+}
+
+export interface PostgresProxyResult {
+  readonly hostname: string;
+  readonly dsnNoPassword: string;
+  readonly securityGroup: ISecurityGroup;
+  readonly proxy: IDatabaseProxy;
+}
+
 type Mutable<T> = {
   -readonly [k in keyof T]: T[k];
 };
 
+// the objects already looked up in each scope - by lookup id (which includes the kind of
+// object, so an id is only ever used for one type of object)
+const LOOKUPS = new WeakMap<IConstruct, Map<string, IConstruct>>();
+
+/**
+ * A client that gives access to the values of an infrastructure stack (by stack id)
+ * from within other CDK stacks.
+ *
+ * All lookups are cached per scope - so repeated lookups of the same object
+ * return the same construct, and lookups against multiple infrastructure stacks or
+ * databases can be used side by side in the same scope.
+ */
 export class InfrastructureClient {
   constructor(protected infrastructureStackId: string) {}
 
+  /**
+   * Look up the value of a string (or ARN) parameter - at the path given
+   * by the parameter manifest.
+   *
+   * @param scope
+   * @param key the parameter in the manifest
+   * @param databaseName for per database parameters, the name of the database
+   */
+  private lookupString(
+    scope: Construct,
+    key: StringParameterKey | ArnParameterKey,
+    databaseName?: string,
+  ): string {
+    return StringParameter.valueFromLookup(
+      scope,
+      parameterPath(key, this.infrastructureStackId, databaseName),
+    );
+  }
+
+  /**
+   * Look up the values of a string list parameter - at the path given
+   * by the parameter manifest.
+   *
+   * @param scope
+   * @param key the parameter in the manifest
+   */
+  private lookupStringList(
+    scope: Construct,
+    key: StringListParameterKey,
+  ): string[] | undefined {
+    const val = StringParameter.valueFromLookup(
+      scope,
+      parameterPath(key, this.infrastructureStackId),
+    );
+
+    if (val && val.length > 0) return val.split(",");
+
+    return undefined;
+  }
+
   /**
    * Workaround for a problem with CDK that on initial pass the values of a valueFromLookup
    * are not valid ARNS - which then causes other code to fail - even though eventually the
@@ -48,16 +120,18 @@ export class InfrastructureClient {
    * See https://github.com/josephedward/aws-cdk/commit/33030e0c2bb46fa909540bff6ae0153d48abc9c2
    *
    * @param scope
-   * @param parameterName
+   * @param key the ARN parameter in the manifest
    * @param dummyComponents
+   * @param databaseName for per database parameters, the name of the database
    */
   private delayedArnLookupHelper(
     scope: Construct,
-    parameterName: string,
+    key: ArnParameterKey,
     dummyComponents: ArnComponents,
+    databaseName?: string,
   ): string {
     // attempt to get the value from CDK - this might be a dummy value however
-    const lookupValue = StringParameter.valueFromLookup(scope, parameterName);
+    const lookupValue = this.lookupString(scope, key, databaseName);
 
     let returnLookupValue: string;
     if (lookupValue.includes("dummy-value")) {
@@ -72,32 +146,74 @@ export class InfrastructureClient {
   }
 
   /**
-   * Get a CDK VPC object from existing infrastructure.
+   * A construct id for a looked up object that is unique to this infrastructure
+   * stack (and database if relevant). This allows lookups from multiple
+   * infrastructure stacks - or of multiple databases - to live side by side in the
+   * same scope.
+   *
+   * @param kind the kind of object being looked up i.e. "Vpc"
+   * @param databaseInstanceName if present, the database the object belongs to
+   */
+  private lookupId(kind: string, databaseInstanceName?: string): string {
+    return (
+      this.infrastructureStackId +
+      (databaseInstanceName ? cdkIdSafeName(databaseInstanceName) : "") +
+      kind
+    );
+  }
+
+  /**
+   * Return the object previously looked up in this scope with the given id - or
+   * otherwise perform the lookup. This means repeated calls for the same
+   * object return the same construct (rather than failing on duplicate ids). Any
+   * other construct that happens to have the id fails as a duplicate.
    *
    * @param scope
+   * @param id
+   * @param lookup a function to construct the object with the given id
    */
-  public getVpcFromLookup(scope: Construct): IVpc {
-    const getStringListLookup = (parameterName: string) => {
-      const val = StringParameter.valueFromLookup(scope, parameterName);
+  private lookupOnce<T extends IConstruct>(
+    scope: Construct,
+    id: string,
+    lookup: (id: string) => T,
+  ): T {
+    let lookups = LOOKUPS.get(scope);
 
-      if (val && val.length > 0) return val.split(",");
+    if (!lookups) {
+      lookups = new Map();
+      LOOKUPS.set(scope, lookups);
+    }
 
-      return undefined;
-    };
+    if (!lookups.has(id)) lookups.set(id, lookup(id));
+
+    return lookups.get(id) as T;
+  }
 
+  /**
+   * Get a CDK VPC object from existing infrastructure.
+   *
+   * @param scope
+   */
+  public getVpcFromLookup(scope: Construct): IVpc {
+    return this.lookupOnce(scope, this.lookupId("Vpc"), (id) =>
+      this.createVpcFromLookup(scope, id),
+    );
+  }
+
+  /**
+   * Construct the CDK VPC object from the VPC values in Parameter Store.
+   *
+   * @param scope
+   * @param id
+   */
+  private createVpcFromLookup(scope: Construct, id: string): IVpc {
     const vpcAttrs: Mutable<VpcAttributes> = {
-      vpcId: StringParameter.valueFromLookup(
+      vpcId: this.lookupString(scope, "vpcId"),
+      availabilityZones: this.lookupStringList(scope, "vpcAvailabilityZones")!,
+      publicSubnetIds: this.lookupStringList(scope, "vpcPublicSubnetIds"),
+      publicSubnetRouteTableIds: this.lookupStringList(
         scope,
-        vpcIdParameterName(this.infrastructureStackId),
-      ),
-      availabilityZones: getStringListLookup(
-        vpcAvailabilityZonesParameterName(this.infrastructureStackId),
-      )!,
-      publicSubnetIds: getStringListLookup(
-        vpcPublicSubnetIdsParameterName(this.infrastructureStackId),
-      ),
-      publicSubnetRouteTableIds: getStringListLookup(
-        vpcPublicSubnetRouteTableIdsParameterName(this.infrastructureStackId),
+        "vpcPublicSubnetRouteTableIds",
       ),
     };
 
@@ -106,11 +222,10 @@ export class InfrastructureClient {
       vpcAttrs.privateSubnetIds = undefined;
       vpcAttrs.privateSubnetRouteTableIds = undefined;
 
-      const privateSubs = getStringListLookup(
-        vpcPrivateSubnetIdsParameterName(this.infrastructureStackId),
-      );
-      const privateSubRoutes = getStringListLookup(
-        vpcPrivateSubnetRouteTableIdsParameterName(this.infrastructureStackId),
+      const privateSubs = this.lookupStringList(scope, "vpcPrivateSubnetIds");
+      const privateSubRoutes = this.lookupStringList(
+        scope,
+        "vpcPrivateSubnetRouteTableIds",
       );
 
       // we always construct these parameters in the infrastructure stack - but we set it
@@ -132,11 +247,10 @@ export class InfrastructureClient {
       vpcAttrs.isolatedSubnetIds = undefined;
       vpcAttrs.isolatedSubnetRouteTableIds = undefined;
 
-      const isolatedSubs = getStringListLookup(
-        vpcIsolatedSubnetIdsParameterName(this.infrastructureStackId),
-      );
-      const isolatedSubRoutes = getStringListLookup(
-        vpcIsolatedSubnetRouteTableIdsParameterName(this.infrastructureStackId),
+      const isolatedSubs = this.lookupStringList(scope, "vpcIsolatedSubnetIds");
+      const isolatedSubRoutes = this.lookupStringList(
+        scope,
+        "vpcIsolatedSubnetRouteTableIds",
       );
 
       // we always construct these parameters in the infrastructure stack - but we set it
@@ -154,7 +268,7 @@ export class InfrastructureClient {
     }
 
     // actually make the VPC object
-    return Vpc.fromVpcAttributes(scope, "VPC", vpcAttrs);
+    return Vpc.fromVpcAttributes(scope, id, vpcAttrs);
   }
 
   /**
@@ -164,20 +278,13 @@ export class InfrastructureClient {
    * @param scope
    */
   public getNamespaceFromLookup(scope: Construct): IHttpNamespace {
-    return HttpNamespace.fromHttpNamespaceAttributes(scope, "Namespace", {
-      namespaceArn: StringParameter.valueFromLookup(
-        scope,
-        namespaceArnParameterName(this.infrastructureStackId),
-      ),
-      namespaceId: StringParameter.valueFromLookup(
-        scope,
-        namespaceIdParameterName(this.infrastructureStackId),
-      ),
-      namespaceName: StringParameter.valueFromLookup(
-        scope,
-        namespaceNameParameterName(this.infrastructureStackId),
-      ),
-    });
+    return this.lookupOnce(scope, this.lookupId("Namespace"), (id) =>
+      HttpNamespace.fromHttpNamespaceAttributes(scope, id, {
+        namespaceArn: this.lookupString(scope, "namespaceArn"),
+        namespaceId: this.lookupString(scope, "namespaceId"),
+        namespaceName: this.lookupString(scope, "namespaceName"),
+      }),
+    );
   }
 
   /**
@@ -187,33 +294,396 @@ export class InfrastructureClient {
    * @param scope
    */
   public getDnsFromLookup(scope: Construct): DnsResult {
-    const hostedZone = route53.HostedZone.fromHostedZoneAttributes(
+    const hostedZone = this.lookupOnce(
       scope,
-      "HostedZone",
-      {
-        hostedZoneId: StringParameter.valueFromLookup(
+      this.lookupId("HostedZone"),
+      (id) =>
+        route53.HostedZone.fromHostedZoneAttributes(scope, id, {
+          hostedZoneId: this.lookupString(scope, "hostedZoneId"),
+          zoneName: this.lookupString(scope, "hostedZoneName"),
+        }),
+    );
+
+    const certificate = this.lookupOnce(scope, this.lookupId("SslCert"), (id) =>
+      Certificate.fromCertificateArn(
+        scope,
+        id,
+        this.lookupString(scope, "certificateArn"),
+      ),
+    );
+
+    return {
+      hostedZone,
+      certificate,
+    };
+  }
+
+  /**
+   * Return the hostname of the given Postgres database.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresHostnameFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): string {
+    return this.lookupString(scope, "databaseHostname", databaseInstanceName);
+  }
+
+  /**
+   * Return the hostname of the reader endpoint of the given Postgres
+   * database - only present if the database has readers.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresReaderHostnameFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): string {
+    return this.lookupString(
+      scope,
+      "databaseReaderHostname",
+      databaseInstanceName,
+    );
+  }
+
+  /**
+   * Return the port of the given Postgres database.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresPortFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): number {
+    const lookupValue = this.lookupString(
+      scope,
+      "databasePort",
+      databaseInstanceName,
+    );
+
+    // on the initial CDK pass the lookup is a dummy value - so we need to
+    // return a plausible port number (which will be replaced with the real value)
+    if (lookupValue.includes("dummy-value")) return 5432;
+
+    return parseInt(lookupValue, 10);
+  }
+
+  /**
+   * Return the name of the admin user of the given Postgres database.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresAdminUserFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): string {
+    return this.lookupString(scope, "databaseAdminUser", databaseInstanceName);
+  }
+
+  /**
+   * Return a DSN for the given Postgres database - the
+   * DSN will include the admin user and database name but *not* the password.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresDsnNoPasswordFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): string {
+    return this.lookupString(
+      scope,
+      "databaseDsnNoPassword",
+      databaseInstanceName,
+    );
+  }
+
+  /**
+   * Return a security group that membership of will give access to the given
+   * named Postgres database.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresSecurityGroupFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): ISecurityGroup {
+    return this.lookupOnce(
+      scope,
+      this.lookupId("PostgresSecurityGroup", databaseInstanceName),
+      (id) =>
+        SecurityGroup.fromSecurityGroupId(
           scope,
-          `/${this.infrastructureStackId}/HostedZone/hostedZoneId`,
+          id,
+          this.lookupString(
+            scope,
+            "databaseSecurityGroupId",
+            databaseInstanceName,
+          ),
+          {
+            // the client stacks where we use these security groups
+            // should not ever edit the ingress/egress rules
+            mutable: false,
+          },
         ),
-        zoneName: StringParameter.valueFromLookup(
+    );
+  }
+
+  /**
+   * Return a secret that contains the administrator username and password
+   * for the given Postgres database.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresAdminPasswordSecretFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): ISecret {
+    return this.lookupOnce(
+      scope,
+      this.lookupId("PostgresAdminSecret", databaseInstanceName),
+      (id) =>
+        Secret.fromSecretCompleteArn(
           scope,
-          `/${this.infrastructureStackId}/HostedZone/zoneName`,
+          id,
+          this.delayedArnLookupHelper(
+            scope,
+            "databaseAdminPasswordSecretArn",
+            {
+              service: "secretsmanager",
+              resource: "secret",
+              resourceName: "adminPasswordSecretThoughThisIsNotReal",
+            },
+            databaseInstanceName,
+          ),
         ),
-      },
     );
+  }
+
+  /**
+   * Return the resource id of the given Postgres database - only present
+   * if the database has IAM database authentication switched on.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresResourceIdFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): string {
+    const lookupValue = this.lookupString(
+      scope,
+      "databaseResourceId",
+      databaseInstanceName,
+    );
+
+    // on the initial CDK pass the lookup is a dummy value - so we need to
+    // return a plausible resource id (which will be replaced with the real value)
+    if (lookupValue.includes("dummy-value")) return "db-DUMMYRESOURCEID";
 
-    const certificate = Certificate.fromCertificateArn(
+    return lookupValue;
+  }
+
+  /**
+   * Grant the ability to connect to the given Postgres database as the given
+   * database user using IAM database authentication. The database must have IAM
+   * database authentication switched on - and the database user must have been
+   * granted the rds_iam role (i.e. a bootstrap role with rdsIam).
+   *
+   * @param scope
+   * @param grantable the principal to grant to (i.e. a lambda)
+   * @param databaseInstanceName
+   * @param dbUser the database user to connect as
+   */
+  public grantDatabaseConnect(
+    scope: Construct,
+    grantable: IGrantable,
+    databaseInstanceName: string,
+    dbUser: string,
+  ): Grant {
+    const resourceId = this.getPostgresResourceIdFromLookup(
       scope,
-      "SslCert",
-      StringParameter.valueFromLookup(
+      databaseInstanceName,
+    );
+
+    return Grant.addToPrincipal({
+      grantee: grantable,
+      actions: ["rds-db:connect"],
+      resourceArns: [
+        Stack.of(scope).formatArn({
+          service: "rds-db",
+          resource: "dbuser",
+          resourceName: `${resourceId}/${dbUser}`,
+          arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+        }),
+      ],
+    });
+  }
+
+  /**
+   * Return all the details of the given Postgres database - as
+   * created by the infrastructure stack.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresDatabaseFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): PostgresDatabaseResult {
+    return {
+      hostname: this.getPostgresHostnameFromLookup(scope, databaseInstanceName),
+      port: this.getPostgresPortFromLookup(scope, databaseInstanceName),
+      adminUser: this.getPostgresAdminUserFromLookup(
         scope,
-        certificateArnParameterName(this.infrastructureStackId),
+        databaseInstanceName,
       ),
+      dsnNoPassword: this.getPostgresDsnNoPasswordFromLookup(
+        scope,
+        databaseInstanceName,
+      ),
+      securityGroup: this.getPostgresSecurityGroupFromLookup(
+        scope,
+        databaseInstanceName,
+      ),
+      adminPasswordSecret: this.getPostgresAdminPasswordSecretFromLookup(
+        scope,
+        databaseInstanceName,
+      ),
+    };
+  }
+
+  /**
+   * Return the hostname of the RDS proxy in front of the given Postgres database.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresProxyHostnameFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): string {
+    return this.lookupString(
+      scope,
+      "databaseProxyHostname",
+      databaseInstanceName,
+    );
+  }
+
+  /**
+   * Return a DSN for the RDS proxy in front of the given Postgres database - the
+   * DSN will include the admin user and database name but *not* a password (connections
+   * to the proxy use an IAM auth token as the password).
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresProxyDsnNoPasswordFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): string {
+    return this.lookupString(
+      scope,
+      "databaseProxyDsnNoPassword",
+      databaseInstanceName,
+    );
+  }
+
+  /**
+   * Return a security group that membership of will give access to the
+   * RDS proxy in front of the given named Postgres database.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresProxySecurityGroupFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): ISecurityGroup {
+    return this.lookupOnce(
+      scope,
+      this.lookupId("PostgresProxySecurityGroup", databaseInstanceName),
+      (id) =>
+        SecurityGroup.fromSecurityGroupId(
+          scope,
+          id,
+          this.lookupString(
+            scope,
+            "databaseProxySecurityGroupId",
+            databaseInstanceName,
+          ),
+          {
+            // the client stacks where we use these security groups
+            // should not ever edit the ingress/egress rules
+            mutable: false,
+          },
+        ),
+    );
+  }
+
+  /**
+   * Return all the details of the RDS proxy in front of the given Postgres
+   * database. The returned proxy can be used to grant IAM auth connections
+   * (i.e. proxy.grantConnect(lambda, "dbuser")).
+   *
+   * @param scope
+   * @param databaseInstanceName
+   */
+  public getPostgresProxyFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+  ): PostgresProxyResult {
+    const securityGroup = this.getPostgresProxySecurityGroupFromLookup(
+      scope,
+      databaseInstanceName,
+    );
+
+    const hostname = this.getPostgresProxyHostnameFromLookup(
+      scope,
+      databaseInstanceName,
+    );
+
+    const proxy = this.lookupOnce(
+      scope,
+      this.lookupId("PostgresProxy", databaseInstanceName),
+      (id) =>
+        DatabaseProxy.fromDatabaseProxyAttributes(scope, id, {
+          dbProxyName: this.lookupString(
+            scope,
+            "databaseProxyName",
+            databaseInstanceName,
+          ),
+          dbProxyArn: this.delayedArnLookupHelper(
+            scope,
+            "databaseProxyArn",
+            {
+              service: "rds",
+              resource: "db-proxy",
+              resourceName: "prx-proxyThoughThisIsNotReal",
+              arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+            },
+            databaseInstanceName,
+          ),
+          endpoint: hostname,
+          securityGroups: [securityGroup],
+        }),
     );
 
     return {
-      hostedZone,
-      certificate,
+      hostname: hostname,
+      dsnNoPassword: this.getPostgresProxyDsnNoPasswordFromLookup(
+        scope,
+        databaseInstanceName,
+      ),
+      securityGroup: securityGroup,
+      proxy: proxy,
     };
   }
 
@@ -228,9 +698,10 @@ export class InfrastructureClient {
     scope: Construct,
     databaseInstanceName: string,
   ) {
-    return StringParameter.valueFromLookup(
+    return this.lookupString(
       scope,
-      `/${this.infrastructureStackId}/Database/${databaseInstanceName}/EdgeDb/dsnNoPasswordOrDatabase`,
+      "databaseEdgeDbDsnNoPasswordOrDatabase",
+      databaseInstanceName,
     );
   }
 
@@ -245,21 +716,24 @@ export class InfrastructureClient {
     scope: Construct,
     databaseInstanceName: string,
   ) {
-    return SecurityGroup.fromSecurityGroupId(
+    return this.lookupOnce(
       scope,
-      "EdgeDbSecurityGroup",
-      StringParameter.valueFromLookup(
-        scope,
-        databaseEdgeDbSecurityGroupIdParameterName(
-          this.infrastructureStackId,
-          databaseInstanceName,
+      this.lookupId("EdgeDbSecurityGroup", databaseInstanceName),
+      (id) =>
+        SecurityGroup.fromSecurityGroupId(
+          scope,
+          id,
+          this.lookupString(
+            scope,
+            "databaseEdgeDbSecurityGroupId",
+            databaseInstanceName,
+          ),
+          {
+            // the client stacks where we use these security groups
+            // should not ever edit the ingress/egress rules
+            mutable: false,
+          },
         ),
-      ),
-      {
-        // the client stacks where we use these security groups
-        // should not ever edit the ingress/egress rules
-        mutable: false,
-      },
     );
   }
 
@@ -274,18 +748,118 @@ export class InfrastructureClient {
     scope: Construct,
     databaseInstanceName: string,
   ): ISecret {
-    return Secret.fromSecretCompleteArn(
+    return this.lookupOnce(
       scope,
-      "EdgeDbAdminSecret",
-      this.delayedArnLookupHelper(
-        scope,
-        `/${this.infrastructureStackId}/Database/${databaseInstanceName}/EdgeDb/adminPasswordSecretArn`,
-        {
-          service: "secretsmanager",
-          resource: "secret",
-          resourceName: "adminPasswordSecretThoughThisIsNotReal",
-        },
-      ),
+      this.lookupId("EdgeDbAdminSecret", databaseInstanceName),
+      (id) =>
+        Secret.fromSecretCompleteArn(
+          scope,
+          id,
+          this.delayedArnLookupHelper(
+            scope,
+            "databaseEdgeDbAdminPasswordSecretArn",
+            {
+              service: "secretsmanager",
+              resource: "secret",
+              resourceName: "adminPasswordSecretThoughThisIsNotReal",
+            },
+            databaseInstanceName,
+          ),
+        ),
+    );
+  }
+
+  /**
+   * Return a secret that contains the password of a (non-superuser) role
+   * created by the bootstrap of the given EdgeDb instance.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   * @param roleName
+   */
+  public getEdgeDbRolePasswordSecretFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+    roleName: string,
+  ): ISecret {
+    return this.lookupRoleSecret(
+      scope,
+      "databaseEdgeDbRoleSecretArns",
+      `EdgeDb${cdkIdSafeName(roleName)}RoleSecret`,
+      databaseInstanceName,
+      roleName,
+    );
+  }
+
+  /**
+   * Return a secret that contains the username and password of an application role
+   * created by the bootstrap of the given Postgres database.
+   *
+   * @param scope
+   * @param databaseInstanceName
+   * @param roleName
+   */
+  public getPostgresRoleSecretFromLookup(
+    scope: Construct,
+    databaseInstanceName: string,
+    roleName: string,
+  ): ISecret {
+    return this.lookupRoleSecret(
+      scope,
+      "databaseRoleSecretArns",
+      `Postgres${cdkIdSafeName(roleName)}RoleSecret`,
+      databaseInstanceName,
+      roleName,
+    );
+  }
+
+  /**
+   * Look up the secret of a bootstrapped role - from the parameter holding a
+   * JSON object of role name to secret ARN.
+   *
+   * @param scope
+   * @param key the parameter in the manifest
+   * @param kind the kind of object being looked up
+   * @param databaseInstanceName
+   * @param roleName
+   */
+  private lookupRoleSecret(
+    scope: Construct,
+    key: "databaseRoleSecretArns" | "databaseEdgeDbRoleSecretArns",
+    kind: string,
+    databaseInstanceName: string,
+    roleName: string,
+  ): ISecret {
+    return this.lookupOnce(
+      scope,
+      this.lookupId(kind, databaseInstanceName),
+      (id) => {
+        const lookupValue = this.lookupString(scope, key, databaseInstanceName);
+
+        let secretArn: string;
+
+        // on the initial CDK pass the lookup is a dummy value - so we need to
+        // return a plausible ARN
+        if (lookupValue.includes("dummy-value")) {
+          secretArn = Stack.of(scope).formatArn({
+            service: "secretsmanager",
+            resource: "secret",
+            resourceName: "roleSecretThoughThisIsNotReal",
+          });
+        } else {
+          const roleSecretArns: { [role: string]: string } =
+            JSON.parse(lookupValue);
+
+          if (!(roleName in roleSecretArns))
+            throw new Error(
+              `The database ${databaseInstanceName} was not bootstrapped with a role ${roleName}`,
+            );
+
+          secretArn = roleSecretArns[roleName];
+        }
+
+        return Secret.fromSecretCompleteArn(scope, id, secretArn);
+      },
     );
   }
 
@@ -295,20 +869,49 @@ export class InfrastructureClient {
    * @param scope
    */
   public getTempBucketFromLookup(scope: Construct): IBucket {
-    return Bucket.fromBucketArn(
-      scope,
-      "TempBucket",
-      this.delayedArnLookupHelper(
+    return this.lookupOnce(scope, this.lookupId("TempBucket"), (id) =>
+      Bucket.fromBucketArn(
         scope,
-        `/${this.infrastructureStackId}/TempPrivateBucket/bucketArn`,
-        {
+        id,
+        this.delayedArnLookupHelper(scope, "tempPrivateBucketArn", {
           service: "s3",
           resource: "a-bucket-name-though-this-is-not-real",
-        },
+        }),
       ),
     );
   }
 
+  /**
+   * Return the AWS Backup vault holding the backups of the infrastructure - only
+   * present if the infrastructure has backups.
+   *
+   * @param scope
+   */
+  public getBackupVaultFromLookup(scope: Construct): IBackupVault {
+    return this.lookupOnce(scope, this.lookupId("BackupVault"), (id) =>
+      BackupVault.fromBackupVaultArn(
+        scope,
+        id,
+        this.delayedArnLookupHelper(scope, "backupVaultArn", {
+          service: "backup",
+          resource: "backup-vault",
+          resourceName: "backupVaultThoughThisIsNotReal",
+          arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Return the id of the bastion instance that can port forward to the databases - only
+   * present if the infrastructure has a bastion.
+   *
+   * @param scope
+   */
+  public getBastionInstanceIdFromLookup(scope: Construct): string {
+    return this.lookupString(scope, "bastionInstanceId");
+  }
+
   /**
    * A prefix that should be prepended to all secret names. We can then
    * access secrets across all applications using a wildcard secret
@@ -317,10 +920,7 @@ export class InfrastructureClient {
    * @param scope
    */
   public getSecretsPrefixFromLookup(scope: Construct): string {
-    return StringParameter.valueFromLookup(
-      scope,
-      secretsManagerSecretsPrefixParameterName(this.infrastructureStackId),
-    );
+    return this.lookupString(scope, "secretsManagerSecretsPrefix");
   }
 
   /**
@@ -337,9 +937,9 @@ export class InfrastructureClient {
    * @param scope
    */
   public getSecretPolicyStatementFromLookup(scope: Construct): PolicyStatement {
-    const secretsPrefix = StringParameter.valueFromLookup(
+    const secretsPrefix = this.lookupString(
       scope,
-      secretsManagerSecretsPrefixParameterName(this.infrastructureStackId),
+      "secretsManagerSecretsPrefix",
     );
 
     return new PolicyStatement({
@@ -361,10 +961,7 @@ export class InfrastructureClient {
   public getCloudMapDiscoveryPolicyStatementFromLookup(
     scope: Construct,
   ): PolicyStatement {
-    const nsArn = StringParameter.valueFromLookup(
-      scope,
-      namespaceArnParameterName(this.infrastructureStackId),
-    );
+    const nsArn = this.lookupString(scope, "namespaceArn");
 
     return new PolicyStatement({
       actions: ["servicediscovery:DiscoverInstances"],
@@ -1,5 +1,6 @@
 import { InstanceType } from "aws-cdk-lib/aws-ec2";
 import { Duration } from "aws-cdk-lib";
+import { CpuArchitecture } from "aws-cdk-lib/aws-ecs";
 
 // NOTE: this was all set up with some nice typescript types - that separated
 // out different postgres settings.. unfortunately - those types are not compatible
@@ -23,15 +24,47 @@ export interface PostgresCommon {
    */
   readonly adminUser: string;
 
+  /**
+   * The version of Postgres to use i.e. "16" or "15.4" - for serverless
+   * an exact (major.minor) version that supports serverless v2 is required. Defaults
+   * to "14" for instances and "15.4" for serverless.
+   */
+  readonly engineVersion?: string;
+
+  /**
+   * If present, Postgres parameters (i.e. "log_min_duration_statement") to set
+   * in a custom parameter group for the database
+   */
+  readonly parameters?: { [name: string]: string };
+
+  /**
+   * If present, rather than creating a new database - imports an existing
+   * database (an instance or cluster according to postgresType). The same parameters
+   * are published and EdgeDb can be put in front of it - but settings that configure
+   * the creation of a database cannot be used.
+   */
+  readonly existing?: PostgresExisting;
+
+  /**
+   * If present, the database is created by restoring this snapshot (a DB snapshot for
+   * instances or a DB cluster snapshot for serverless) - i.e. a final snapshot taken when
+   * the stack was previously removed. The admin user must be the same as the admin user
+   * of the snapshot (though the admin password is reset to that of the new secret).
+   */
+  readonly snapshotIdentifier?: string;
+
   /**
    * If present and true, will set the database such that
-   * it will autodelete/autoremove when the stack is destroyed
+   * it will autodelete/autoremove when the stack is destroyed.
+   * Defaults to the isDevelopment setting of the stack - and
+   * is only allowed in development.
    */
   readonly destroyOnRemove?: boolean;
 
   /**
    * If present and true, will place the database such that
-   * it can be reached from public IP addresses
+   * it can be reached from public IP addresses. Only allowed
+   * in development.
    */
   readonly makePubliclyReachable?: boolean;
 
@@ -47,6 +80,37 @@ export interface PostgresCommon {
    */
   readonly enableMonitoring?: PostgresCommonMonitoring;
 
+  /**
+   * If present, the admin password is rotated on this schedule (using the hosted
+   * single user rotation of Secrets Manager). Because EdgeDb holds the admin password
+   * in its backend DSN, this cannot be used for a database with EdgeDb in front
+   * of it. Note also that the dsnWithPassword parameter holds the password as at
+   * deployment - so should not be used with rotation.
+   */
+  readonly rotateAdminPasswordAfter?: Duration;
+
+  /**
+   * If present and true, switches on IAM database authentication for the database
+   * and publishes its resource id (so that clients can be granted rds-db:connect). Note
+   * that database users must also be granted the rds_iam role in Postgres (i.e. using rdsIam
+   * on a bootstrap role).
+   */
+  readonly enableIamAuthentication?: boolean;
+
+  /**
+   * If present and true, puts an RDS Proxy in front of the database. Clients connect
+   * to the proxy using IAM auth (the proxy itself uses the admin secret) and the proxy
+   * endpoint is published as separate parameters. Any EdgeDb in front of the database
+   * still connects directly to the database (EdgeDb pools its own connections).
+   */
+  readonly enableProxy?: boolean;
+
+  /**
+   * If present, will run a one-shot task after deployment that creates extra
+   * databases, extensions and application roles in the Postgres.
+   */
+  readonly bootstrap?: PostgresBootstrap;
+
   /**
    * If present - instruct us to create an edgedb in front of this db
    */
@@ -61,6 +125,12 @@ export interface PostgresCommon {
    */
   readonly instanceType?: InstanceType;
 
+  /**
+   * If present and true, the instance has a standby in a second availability zone
+   * that is failed over to (the standby cannot be read from). Defaults to false.
+   */
+  readonly multiAz?: boolean;
+
   // -------------
   // Settings below are only for serverless Postgres
   // -------------
@@ -74,6 +144,105 @@ export interface PostgresCommon {
    * The maximum number of ACU - or default to a sensible 4
    */
   readonly maxCapacity?: number;
+
+  /**
+   * The number of serverless v2 reader instances to create alongside the writer - these
+   * are reached through the reader endpoint (and are failed over to). Defaults to 0.
+   */
+  readonly readers?: number;
+
+  /**
+   * If present and true, the readers scale along with the writer (so can take over
+   * immediately on fail over) - otherwise the readers are in a lower promotion tier and scale
+   * independently on their own load.
+   */
+  readonly readersScaleWithWriter?: boolean;
+}
+
+/**
+ * An existing RDS database (i.e. from a legacy deployment) to use rather
+ * than creating a new one.
+ */
+export interface PostgresExisting {
+  /**
+   * The identifier of the existing RDS instance or cluster
+   */
+  readonly identifier: string;
+
+  /**
+   * The complete ARN of the existing secret holding the admin username and
+   * password (as JSON fields username and password)
+   */
+  readonly adminSecretArn: string;
+
+  /**
+   * The id of an existing security group that gives access to the database - this
+   * is published as the membership group of the database and so must allow
+   * access to the database from its own members
+   */
+  readonly securityGroupId: string;
+}
+
+/**
+ * Databases, extensions and roles to create in a Postgres. The bootstrap is
+ * idempotent and is run again whenever these settings change.
+ */
+export interface PostgresBootstrap {
+  /**
+   * The names of extra databases to create (alongside the database
+   * that is always created with the name of the Postgres)
+   */
+  readonly databases?: string[];
+
+  /**
+   * Extensions (i.e. pg_trgm or uuid-ossp) to create in every database
+   */
+  readonly extensions?: string[];
+
+  /**
+   * Application roles to create - each role is given a generated
+   * password held in a secret under the secrets prefix
+   */
+  readonly roles?: PostgresBootstrapRole[];
+
+  /**
+   * If present, the full URI of the image (which must include the psql client) that
+   * the bootstrap task runs - i.e. a private ECR pull through cache of Docker Hub. Defaults
+   * to postgres:16-alpine on Docker Hub.
+   */
+  readonly imageUri?: string;
+
+  /**
+   * The CPU architecture of the bootstrap task - the image must support this
+   * architecture. Defaults to ARM64.
+   */
+  readonly cpuArchitecture?: CpuArchitecture;
+}
+
+export interface PostgresBootstrapRole {
+  /**
+   * The name of the role
+   */
+  readonly name: string;
+
+  /**
+   * The databases the role is granted access to - defaults to the
+   * database with the name of the Postgres
+   */
+  readonly databases?: string[];
+
+  /**
+   * If true, the role can only read tables - otherwise it can read and write
+   * tables (and create new ones)
+   */
+  readonly readOnly?: boolean;
+
+  /**
+   * If true, the role is granted rds_iam so that it connects using IAM database
+   * authentication (which the database must have switched on with enableIamAuthentication).
+   * Postgres then no longer accepts the password of the role.
+   */
+  readonly rdsIam?: boolean;
 }
 
 export interface PostgresCommonMonitoring {
@@ -88,10 +257,43 @@ export interface PostgresCommonMonitoring {
  */
 export interface EdgeDbCommon {
   /**
-   * The version string of EdgeDb that will be used for the spun up EdgeDb image
+   * Whether the image is a release of EdgeDb - or of Gel (the renamed EdgeDb) which uses
+   * GEL_SERVER_* environment variables and a gel:// DSN. Moving an existing EdgeDb to Gel
+   * keeps the same published parameters (with the DSN changing to the gel:// scheme).
+   * Defaults to "edgedb".
+   */
+  readonly flavour?: "edgedb" | "gel";
+
+  /**
+   * The version string of EdgeDb (or Gel) that will be used for the spun up EdgeDb image
    */
   readonly version: string;
 
+  /**
+   * If present, the repository (without tag) that the EdgeDb image is pulled from - i.e. a
+   * private ECR pull through cache of Docker Hub. The image tag is the version. Defaults
+   * to edgedb/edgedb (or geldata/gel) on Docker Hub.
+   */
+  readonly imageRepository?: string;
+
+  /**
+   * If present, the full URI (including tag and/or digest) of the EdgeDb image - rather
+   * than an image repository. The version must still be set to the EdgeDb version
+   * of the image.
+   */
+  readonly imageUri?: string;
+
+  /**
+   * If present, the digest (i.e. "sha256:...") that the EdgeDb image is pinned to
+   */
+  readonly imageDigest?: string;
+
+  /**
+   * The CPU architecture of the EdgeDb tasks - the image must support this
+   * architecture. Defaults to ARM64.
+   */
+  readonly cpuArchitecture?: CpuArchitecture;
+
   /**
    * The memory assigned to the Edge Db service - defaults to a sensible value
    */
@@ -102,16 +304,122 @@ export interface EdgeDbCommon {
    */
   readonly cpu?: number;
 
+  /**
+   * The number of EdgeDb tasks to run - defaults to 1 (so a task restart makes
+   * EdgeDb unavailable until the replacement starts)
+   */
+  readonly desiredCount?: number;
+
+  /**
+   * If scaling, the minimum number of EdgeDb tasks - defaults to the desired count
+   */
+  readonly minCount?: number;
+
+  /**
+   * If present (and more than the minimum), the EdgeDb service scales up to this
+   * many tasks according to the scaling targets
+   */
+  readonly maxCount?: number;
+
+  /**
+   * If scaling, the average CPU utilization (percent) of the tasks
+   * that the service scales to keep - at least one target must be set
+   */
+  readonly scaleOnCpuUtilization?: number;
+
+  /**
+   * If scaling, the number of active connections (through the protocol load balancer) per
+   * healthy task that the service scales to keep - at least one target must be set
+   */
+  readonly scaleOnConnectionsPerTask?: number;
+
+  /**
+   * If present, deployments of the EdgeDb service that fail to reach a steady state
+   * are stopped by the ECS deployment circuit breaker (and optionally rolled back)
+   */
+  readonly deploymentCircuitBreaker?: EdgeDbDeploymentCircuitBreaker;
+
   /**
    * The port number to assign for EdgeDb protocol - defaults to 5656 which
    * is what is assumed for edgedb connections
    */
   readonly dbPort?: number;
 
-  /**0
-   * If present, will make the EdgeDb UI exposed publicly
+  /**
+   * If present, will make the EdgeDb UI exposed publicly. Only allowed
+   * in development - unless the UI is restricted to an allow-list.
    */
   readonly makePubliclyReachable?: EdgeDbPublic;
+
+  /**
+   * If present, will make the EdgeDb UI reachable only from inside the VPC (or from
+   * allow-listed networks i.e. a VPN) through an internal load balancer - with a private
+   * DNS record. Cannot be used with makePubliclyReachable.
+   */
+  readonly privateUi?: EdgeDbPrivateUi;
+
+  /**
+   * If present, the superuser password is rotated on this schedule - after which
+   * the EdgeDb service is restarted so that it picks up the new password
+   */
+  readonly rotateSuperUserPasswordAfter?: Duration;
+
+  /**
+   * If present, will run a one-shot task after deployment that creates
+   * databases and non-superuser roles in the EdgeDb - so that applications
+   * do not need to connect as the superuser.
+   */
+  readonly bootstrap?: EdgeDbBootstrap;
+}
+
+export interface EdgeDbDeploymentCircuitBreaker {
+  /**
+   * If present and true, a failed deployment is rolled back to the last
+   * deployment that reached a steady state
+   */
+  readonly rollback?: boolean;
+}
+
+export interface EdgeDbPrivateUi {
+  /**
+   * the DNS prefix to expose the EdgeDb UI as - the name resolves only inside the VPC
+   */
+  readonly urlPrefix: string;
+
+  /**
+   * The port number to assign for UI access - defaults to 443
+   */
+  readonly uiPort?: number;
+
+  /**
+   * If present, the IPv4 and IPv6 CIDRs (i.e. of a VPN) that are allowed to reach the UI.
+   * Defaults to the CIDR of the VPC.
+   */
+  readonly allowedCidrs?: string[];
+
+  /**
+   * If present, the id of a managed prefix list of the addresses that are allowed to
+   * reach the UI
+   */
+  readonly allowedPrefixListId?: string;
+}
+
+/**
+ * Databases and roles to create in an EdgeDb. The bootstrap is
+ * idempotent and is run again whenever these settings change.
+ */
+export interface EdgeDbBootstrap {
+  /**
+   * The names of databases to create (these are created as empty
+   * branches from EdgeDb 5)
+   */
+  readonly databases?: string[];
+
+  /**
+   * The names of non-superuser roles to create - each role is given a generated
+   * password held in a secret under the secrets prefix
+   */
+  readonly roles?: string[];
 }
 
 export interface EdgeDbPublic {
@@ -126,4 +434,17 @@ export interface EdgeDbPublic {
    * mapping this to another port.
    */
   readonly uiPort?: number;
+
+  /**
+   * If present, the IPv4 and IPv6 CIDRs (i.e. "203.0.113.0/24") that are allowed to
+   * reach the UI. Without an allow-list (in development) the UI can be reached from any
+   * IPv4 address.
+   */
+  readonly allowedCidrs?: string[];
+
+  /**
+   * If present, the id of a managed prefix list (i.e. "pl-0123456789abcdef0") of the
+   * addresses that are allowed to reach the UI
+   */
+  readonly allowedPrefixListId?: string;
 }
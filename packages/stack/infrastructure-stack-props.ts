@@ -1,4 +1,6 @@
-import { StackProps } from "aws-cdk-lib";
+import { Duration, StackProps } from "aws-cdk-lib";
+import { Schedule } from "aws-cdk-lib/aws-events";
+import { InstanceType } from "aws-cdk-lib/aws-ec2";
 import { PostgresCommon } from "./infrastructure-stack-database-props";
 
 export interface InfrastructureStackNetworkProps {
@@ -7,6 +9,68 @@ export interface InfrastructureStackNetworkProps {
    * See vpc.ts.
    */
   readonly vpcNameOrDefaultOrUndefined?: string;
+
+  /**
+   * If constructing a new VPC, the IPv4 CIDR block of the VPC - defaults
+   * to 10.0.0.0/16.
+   */
+  readonly cidr?: string;
+
+  /**
+   * If constructing a new VPC, the maximum number of AZs to spread the VPC
+   * across - defaults to every AZ in the region.
+   */
+  readonly maxAzs?: number;
+
+  /**
+   * If constructing a new VPC, the number of NAT gateways (or NAT instances) to
+   * create - defaults to 1. With 0 the application subnets have no route to the
+   * internet at all (so anything in them must reach AWS through endpoints).
+   */
+  readonly natGateways?: number;
+
+  /**
+   * If constructing a new VPC, use NAT instances of this (x86) instance type rather
+   * than NAT gateways - which can save money in development accounts.
+   */
+  readonly natInstanceType?: InstanceType;
+
+  /**
+   * If constructing a new VPC, the size of the public ingress subnets (i.e. 24 for a /24) -
+   * defaults to splitting the VPC CIDR evenly between the subnets.
+   */
+  readonly ingressSubnetCidrMask?: number;
+
+  /**
+   * If constructing a new VPC, the size of the private application subnets (i.e. 24
+   * for a /24) - defaults to splitting the VPC CIDR evenly between the subnets.
+   */
+  readonly applicationSubnetCidrMask?: number;
+
+  /**
+   * If constructing a new VPC, the size of the isolated database subnets (i.e. 24 for
+   * a /24) - defaults to splitting the VPC CIDR evenly between the subnets.
+   */
+  readonly databaseSubnetCidrMask?: number;
+
+  /**
+   * If constructing a new VPC, the interface endpoints to create in it - so that
+   * AWS services can be reached without going through the NAT ("ecr" is
+   * the ECR API and Docker registry - along with an S3 gateway endpoint for the
+   * image layers, "ssm" includes the Session Manager messages services).
+   * The endpoints can be used by members of the VPC security group. They can
+   * also be used by the databases (and their bootstrap and rotation), by EdgeDb
+   * and by any bastion. The "ecr" and "logs" endpoints are always created for
+   * images in a private ECR registry.
+   */
+  readonly interfaceEndpoints?: (
+    | "secretsmanager"
+    | "ssm"
+    | "ecr"
+    | "logs"
+    | "sts"
+    | "kms"
+  )[];
 }
 
 export interface InfrastructureStackNamespaceProps {
@@ -24,6 +88,72 @@ export interface InfrastructureStackDnsProps {
   readonly hostedZoneName: string;
 }
 
+export interface InfrastructureStackBackupProps {
+  /**
+   * When backups are taken - defaults to daily at 5am (UTC)
+   */
+  readonly schedule?: Schedule;
+
+  /**
+   * How long backups are kept for - defaults to forever
+   */
+  readonly deleteAfter?: Duration;
+
+  /**
+   * If present, how long before backups are moved to cold storage
+   */
+  readonly moveToColdStorageAfter?: Duration;
+
+  /**
+   * The names of S3 buckets (which must have versioning enabled) to
+   * also back up - databases are always backed up
+   */
+  readonly bucketNames?: string[];
+
+  /**
+   * Other vaults (i.e. in other regions or accounts) that backups are copied to
+   */
+  readonly copyTo?: InfrastructureStackBackupCopyProps[];
+}
+
+export interface InfrastructureStackBackupCopyProps {
+  /**
+   * The ARN of the vault to copy backups to - for a vault in another account, the
+   * access policy of the vault must allow copies from this account
+   */
+  readonly destinationBackupVaultArn: string;
+
+  /**
+   * How long the copies are kept for - defaults to forever
+   */
+  readonly deleteAfter?: Duration;
+}
+
+export interface InfrastructureStackObservabilityProps {
+  /**
+   * Email addresses that are subscribed to the topic that alarms are sent to
+   * (each address must confirm the subscription)
+   */
+  readonly alarmEmailAddresses?: string[];
+
+  /**
+   * The name of the generated dashboard - defaults to a name generated by CloudFormation
+   */
+  readonly dashboardName?: string;
+
+  /**
+   * The number of connections to a database above which we alarm - defaults to 100
+   */
+  readonly databaseConnectionsThreshold?: number;
+}
+
+export interface InfrastructureStackBastionProps {
+  /**
+   * The instance type of the bastion - defaults to a t4g.nano
+   */
+  readonly instanceType?: InstanceType;
+}
+
 export interface InfrastructureStackProps extends StackProps {
   /**
    * A master control switch that tells us that this infrastructure is destined
@@ -33,8 +163,14 @@ export interface InfrastructureStackProps extends StackProps {
    * no way expose any resource insecurely (i.e. they will still need passwords
    * even if the database is in a public subnet).
    *
+   * When set, databases default to being destroyed on remove, keep minimal
+   * backups, have no deletion protection and short log retention, and
+   * EdgeDb logs at debug level. Settings that make resources publicly
+   * reachable are *only* allowed when this is set.
+   *
    * The default assumption if this is not present is that all infrastructure
-   * is as locked down as possible.
+   * is as locked down as possible - and synthesis will fail if any
+   * development only settings are asked for.
    */
   readonly isDevelopment?: boolean;
 
@@ -60,6 +196,26 @@ export interface InfrastructureStackProps extends StackProps {
    */
   readonly databases?: PostgresCommon[];
 
+  /**
+   * If present, an AWS Backup vault and plan is created that backs up
+   * all the databases (and any selected buckets).
+   */
+  readonly backup?: InfrastructureStackBackupProps;
+
+  /**
+   * If present, CloudWatch alarms (sent to an SNS topic) and a dashboard are
+   * created for all the databases (and any EdgeDb in front of them).
+   */
+  readonly observability?: InfrastructureStackObservabilityProps;
+
+  /**
+   * If present, a bastion instance (with no inbound ports) is created that can reach
+   * every database (and EdgeDb) - so that operators can port forward to them through
+   * SSM Session Manager. In a new VPC with natGateways of 0 the network must have the
+   * "ssm" interfaceEndpoints.
+   */
+  readonly bastion?: InfrastructureStackBastionProps;
+
   /**
    * A prefix that is used for constructing any AWS secrets associated with
    * this infrastructure (i.e. postgres password secret).
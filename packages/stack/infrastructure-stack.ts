@@ -3,10 +3,15 @@ import {
   Duration,
   RemovalPolicy,
   Stack,
+  Tokenization,
 } from "aws-cdk-lib";
 import { Construct } from "constructs";
 import { InstanceBaseDatabase } from "./rds/instance-base-database";
 import { smartVpcConstruct } from "./network/vpc";
+import {
+  InterfaceEndpointName,
+  InterfaceEndpointsConstruct,
+} from "./network/interface-endpoints-construct";
 import { Bucket, BucketEncryption, ObjectOwnership } from "aws-cdk-lib/aws-s3";
 import { HostedZone, IHostedZone } from "aws-cdk-lib/aws-route53";
 import {
@@ -14,47 +19,75 @@ import {
   CertificateValidation,
 } from "aws-cdk-lib/aws-certificatemanager";
 import { InfrastructureStackProps } from "./infrastructure-stack-props";
+import {
+  EdgeDbPrivateUi,
+  EdgeDbPublic,
+  PostgresCommon,
+} from "./infrastructure-stack-database-props";
 import { StringListParameter, StringParameter } from "aws-cdk-lib/aws-ssm";
 import { HttpNamespace } from "aws-cdk-lib/aws-servicediscovery";
-import { Port, SecurityGroup } from "aws-cdk-lib/aws-ec2";
+import { IPeer, Peer, Port, SecurityGroup } from "aws-cdk-lib/aws-ec2";
 import { BaseDatabase } from "./rds/base-database";
 import { ServerlessBaseDatabase } from "./rds/serverless-base-database";
-import { EdgeDbConstruct } from "./edge-db/edge-db-construct";
+import { ExistingBaseDatabase } from "./rds/existing-base-database";
+import { BackupConstruct } from "./backup/backup-construct";
+import { BastionConstruct } from "./bastion/bastion-construct";
+import { ObservabilityConstruct } from "./observability/observability-construct";
+import {
+  EdgeDbAutoScalingProps,
+  EdgeDbConstruct,
+} from "./edge-db/edge-db-construct";
+import { PostgresBootstrapConstruct } from "./rds/postgres-bootstrap-construct";
 import {
-  databaseEdgeDbAdminPasswordSecretArnParameterName,
-  databaseEdgeDbDsnNoPasswordOrDatabaseParameterName,
-  databaseEdgeDbSecurityGroupIdParameterName,
-  namespaceArnParameterName,
-  namespaceIdParameterName,
-  namespaceNameParameterName,
-  secretsManagerSecretsPrefixParameterName,
-  vpcAvailabilityZonesParameterName,
-  vpcIdParameterName,
-  vpcInternalSecurityGroupIdParameterName,
-  vpcIsolatedSubnetIdsParameterName,
-  vpcIsolatedSubnetRouteTableIdsParameterName,
-  vpcPrivateSubnetIdsParameterName,
-  vpcPrivateSubnetRouteTableIdsParameterName,
-  vpcPublicSubnetIdsParameterName,
-  vpcPublicSubnetRouteTableIdsParameterName,
-  vpcSecurityGroupIdParameterName,
-} from "./parameter-names";
-import { camelCase } from "./justCamelCase";
-
-export { InfrastructureClient, DnsResult } from "./infrastructure-client";
+  ArnParameterKey,
+  PARAMETER_MANIFEST,
+  ParameterKey,
+  parameterPath,
+  StringListParameterKey,
+  StringParameterKey,
+} from "./parameter-manifest";
+import { cdkIdSafeName } from "./cdk-id-safe-name";
+import { ecrRepositoryArn, edgeDbImageUri } from "./edge-db/edge-db-image";
+import { edgeDbFlavour } from "./edge-db/edge-db-flavour";
+import { Cluster, CpuArchitecture } from "aws-cdk-lib/aws-ecs";
+import { RetentionDays } from "aws-cdk-lib/aws-logs";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+
+export {
+  InfrastructureClient,
+  DnsResult,
+  PostgresDatabaseResult,
+  PostgresProxyResult,
+} from "./infrastructure-client";
 
 export {
   InfrastructureStackProps,
   InfrastructureStackNamespaceProps,
   InfrastructureStackDnsProps,
   InfrastructureStackNetworkProps,
+  InfrastructureStackBackupProps,
+  InfrastructureStackBackupCopyProps,
+  InfrastructureStackObservabilityProps,
+  InfrastructureStackBastionProps,
 } from "./infrastructure-stack-props";
 
+export {
+  InfrastructureParameterManifest,
+  InfrastructureParameter,
+  InfrastructureParameterType,
+} from "./parameter-manifest";
+
 export {
   PostgresCommon,
   PostgresCommonMonitoring,
+  PostgresBootstrap,
+  PostgresBootstrapRole,
+  PostgresExisting,
   EdgeDbCommon,
   EdgeDbPublic,
+  EdgeDbPrivateUi,
+  EdgeDbBootstrap,
+  EdgeDbDeploymentCircuitBreaker,
 } from "./infrastructure-stack-database-props";
 
 /**
@@ -72,103 +105,117 @@ export class InfrastructureStack extends Stack {
 
     this.templateOptions.description = props.description;
 
-    const vpc = smartVpcConstruct(
-      this,
-      "VPC",
-      props.network.vpcNameOrDefaultOrUndefined,
-      false,
+    const isDevelopment = !!props.isDevelopment;
+
+    // the retention of logs of any services/tasks we create
+    const logRetention = isDevelopment
+      ? RetentionDays.ONE_WEEK
+      : RetentionDays.ONE_YEAR;
+
+    // EdgeDb (and bootstrap) images from a private ECR registry are pulled through the ECR endpoints
+    const enableEcrEndpoints = (props.databases ?? []).some((dbConfig) =>
+      [
+        dbConfig.edgeDb
+          ? edgeDbImageUri(dbConfig.name, dbConfig.edgeDb)
+          : undefined,
+        dbConfig.bootstrap?.imageUri,
+      ].some(
+        (imageUri) =>
+          imageUri !== undefined &&
+          ecrRepositoryArn(this, imageUri) !== undefined,
+      ),
     );
 
+    const vpc = smartVpcConstruct(this, "VPC", props.network);
+
     // https://lzygo1995.medium.com/how-to-share-information-between-stacks-through-ssm-parameter-store-in-cdk-1a64e4e9d83a
 
-    new StringParameter(this, "VpcIdParameter", {
-      parameterName: vpcIdParameterName(id),
-      stringValue: vpc.vpcId,
-    });
+    this.exportStringParameter("vpcId", vpc.vpcId);
 
-    new StringListParameter(this, "AvailabilityZonesParameter", {
-      parameterName: vpcAvailabilityZonesParameterName(id),
-      stringListValue: vpc.availabilityZones,
-    });
+    this.exportStringListParameter(
+      "vpcAvailabilityZones",
+      vpc.availabilityZones,
+    );
 
-    new StringListParameter(this, "PublicSubnetIdsParameter", {
-      parameterName: vpcPublicSubnetIdsParameterName(id),
-      stringListValue: vpc.publicSubnets.map((a) => a.subnetId),
-    });
+    this.exportStringListParameter(
+      "vpcPublicSubnetIds",
+      vpc.publicSubnets.map((a) => a.subnetId),
+    );
 
-    new StringListParameter(this, "PublicSubnetRouteTableIdsParameter", {
-      parameterName: vpcPublicSubnetRouteTableIdsParameterName(id),
-      stringListValue: vpc.publicSubnets.map((a) => a.routeTable.routeTableId),
-    });
+    this.exportStringListParameter(
+      "vpcPublicSubnetRouteTableIds",
+      vpc.publicSubnets.map((a) => a.routeTable.routeTableId),
+    );
 
     if (vpc.privateSubnets && vpc.privateSubnets.length > 0) {
-      new StringListParameter(this, "PrivateSubnetIdsParameter", {
-        parameterName: vpcPrivateSubnetIdsParameterName(id),
-        stringListValue: vpc.privateSubnets.map((a) => a.subnetId),
-      });
-
-      new StringListParameter(this, "PrivateSubnetRouteTableIdsParameter", {
-        parameterName: vpcPrivateSubnetRouteTableIdsParameterName(id),
-        stringListValue: vpc.privateSubnets.map(
-          (a) => a.routeTable.routeTableId,
-        ),
-      });
+      this.exportStringListParameter(
+        "vpcPrivateSubnetIds",
+        vpc.privateSubnets.map((a) => a.subnetId),
+      );
+
+      this.exportStringListParameter(
+        "vpcPrivateSubnetRouteTableIds",
+        vpc.privateSubnets.map((a) => a.routeTable.routeTableId),
+      );
     } else {
       // CDK has strange behaviour when looking up "optional" parameters - so instead
       // we create a parameter with a single empty string to indicate that we do not have any
       // private subnets
       // our infrastructure client handles the other end of this behaviour
-      new StringListParameter(this, "PrivateSubnetIdsParameter", {
-        parameterName: vpcPrivateSubnetIdsParameterName(id),
-        // grrr... ssm string lists can neither be zero length... nor contain empty strings...
-        stringListValue: ["empty"],
-      });
-      new StringListParameter(this, "PrivateSubnetRouteTableIdsParameter", {
-        parameterName: vpcPrivateSubnetRouteTableIdsParameterName(id),
-        stringListValue: ["empty"],
-      });
+      // grrr... ssm string lists can neither be zero length... nor contain empty strings...
+      this.exportStringListParameter("vpcPrivateSubnetIds", ["empty"]);
+      this.exportStringListParameter("vpcPrivateSubnetRouteTableIds", [
+        "empty",
+      ]);
     }
 
     if (vpc.isolatedSubnets && vpc.isolatedSubnets.length > 0) {
-      new StringListParameter(this, "IsolatedSubnetIdsParameter", {
-        parameterName: vpcIsolatedSubnetIdsParameterName(id),
-        stringListValue: vpc.isolatedSubnets.map((a) => a.subnetId),
-      });
-
-      new StringListParameter(this, "IsolatedSubnetRouteTableIdsParameter", {
-        parameterName: vpcIsolatedSubnetRouteTableIdsParameterName(id),
-        stringListValue: vpc.isolatedSubnets.map(
-          (a) => a.routeTable.routeTableId,
-        ),
-      });
+      this.exportStringListParameter(
+        "vpcIsolatedSubnetIds",
+        vpc.isolatedSubnets.map((a) => a.subnetId),
+      );
+
+      this.exportStringListParameter(
+        "vpcIsolatedSubnetRouteTableIds",
+        vpc.isolatedSubnets.map((a) => a.routeTable.routeTableId),
+      );
     } else {
       // CDK has strange behaviour when looking up "optional" parameters - so instead
       // we create a parameter with a single empty string to indicate that we do not have any
       // isolated subnets
       // our infrastructure client handles the other end of this behaviour
-      new StringListParameter(this, "IsolatedSubnetIdsParameter", {
-        parameterName: vpcIsolatedSubnetIdsParameterName(id),
-        // grrr... ssm string lists can neither be zero length... nor contain empty strings...
-        stringListValue: ["empty"],
-      });
-      new StringListParameter(this, "IsolatedSubnetRouteTableIdsParameter", {
-        parameterName: vpcIsolatedSubnetRouteTableIdsParameterName(id),
-        // grrr... ssm string lists can neither be zero length... nor contain empty strings...
-        stringListValue: ["empty"],
-      });
+      // grrr... ssm string lists can neither be zero length... nor contain empty strings...
+      this.exportStringListParameter("vpcIsolatedSubnetIds", ["empty"]);
+      this.exportStringListParameter("vpcIsolatedSubnetRouteTableIds", [
+        "empty",
+      ]);
     }
 
-    {
-      const sg = new SecurityGroup(this, "SecurityGroup", {
-        vpc: vpc,
-        description: "Security group for general resources in the VPC",
-      });
+    const vpcSecurityGroup = new SecurityGroup(this, "SecurityGroup", {
+      vpc: vpc,
+      description: "Security group for general resources in the VPC",
+    });
 
-      new StringParameter(this, "SecurityGroupIdParameter", {
-        parameterName: vpcSecurityGroupIdParameterName(id),
-        stringValue: sg.securityGroupId,
-      });
-    }
+    this.exportStringParameter(
+      "vpcSecurityGroupId",
+      vpcSecurityGroup.securityGroupId,
+    );
+
+    // interface endpoints are only ever added to a VPC we have constructed
+    const interfaceEndpointNames: InterfaceEndpointName[] = [
+      ...(props.network.interfaceEndpoints ?? []),
+      ...(enableEcrEndpoints ? (["ecr", "logs"] as const) : []),
+    ];
+
+    const interfaceEndpoints =
+      props.network.vpcNameOrDefaultOrUndefined === undefined &&
+      interfaceEndpointNames.length > 0
+        ? new InterfaceEndpointsConstruct(this, "InterfaceEndpoints", {
+            vpc: vpc,
+            endpoints: interfaceEndpointNames,
+            vpcSecurityGroup: vpcSecurityGroup,
+          })
+        : undefined;
 
     {
       const internalSg = new SecurityGroup(this, "InternalSecurityGroup", {
@@ -182,18 +229,18 @@ export class InfrastructureStack extends Stack {
       internalSg.addIngressRule(internalSg, Port.allTraffic());
       internalSg.addEgressRule(internalSg, Port.allTraffic());
 
-      new StringParameter(this, "InternalSecurityGroupIdParameter", {
-        parameterName: vpcInternalSecurityGroupIdParameterName(id),
-        stringValue: internalSg.securityGroupId,
-      });
+      this.exportStringParameter(
+        "vpcInternalSecurityGroupId",
+        internalSg.securityGroupId,
+      );
     }
 
     // we export the secrets prefix so it can be used by application stacks
     // for setting a tight (yet wildcarded) policy
-    new StringParameter(this, "SecretsPrefixParameter", {
-      parameterName: secretsManagerSecretsPrefixParameterName(id),
-      stringValue: props.secretsPrefix,
-    });
+    this.exportStringParameter(
+      "secretsManagerSecretsPrefix",
+      props.secretsPrefix,
+    );
 
     // the temp bucket is a useful artifact to allow us to construct S3 objects
     // that we know will automatically cycle/destroy
@@ -279,35 +326,26 @@ export class InfrastructureStack extends Stack {
       ],
     });*/
 
-    new StringParameter(this, "TempPrivateBucketArnParameter", {
-      parameterName: `/${id}/TempPrivateBucket/bucketArn`,
-      stringValue: tempPrivateBucket.bucketArn,
-    });
+    this.exportStringParameter(
+      "tempPrivateBucketArn",
+      tempPrivateBucket.bucketArn,
+    );
 
-    new StringParameter(this, "TempPrivateBucketNameParameter", {
-      parameterName: `/${id}/TempPrivateBucket/bucketName`,
-      stringValue: tempPrivateBucket.bucketName,
-    });
+    this.exportStringParameter(
+      "tempPrivateBucketName",
+      tempPrivateBucket.bucketName,
+    );
 
     if (props.ns) {
       const ns = new HttpNamespace(this, "Namespace", {
         name: props.ns.name,
       });
 
-      new StringParameter(this, "NamespaceNameParameter", {
-        parameterName: namespaceNameParameterName(id),
-        stringValue: ns.namespaceName,
-      });
+      this.exportStringParameter("namespaceName", ns.namespaceName);
 
-      new StringParameter(this, "NamespaceIdParameter", {
-        parameterName: namespaceIdParameterName(id),
-        stringValue: ns.namespaceId,
-      });
+      this.exportStringParameter("namespaceId", ns.namespaceId);
 
-      new StringParameter(this, "NamespaceArnParameter", {
-        parameterName: namespaceArnParameterName(id),
-        stringValue: ns.namespaceArn,
-      });
+      this.exportStringParameter("namespaceArn", ns.namespaceArn);
     }
 
     let hz: IHostedZone | undefined = undefined;
@@ -324,22 +362,46 @@ export class InfrastructureStack extends Stack {
         validation: CertificateValidation.fromDns(hz),
       });
 
-      new StringParameter(this, "ZoneNameParameter", {
-        parameterName: `/${id}/HostedZone/zoneName`,
-        stringValue: hz.zoneName,
-      });
+      this.exportStringParameter("hostedZoneName", hz.zoneName);
 
-      new StringParameter(this, "HostedZoneIdParameter", {
-        parameterName: `/${id}/HostedZone/hostedZoneId`,
-        stringValue: hz.hostedZoneId,
-      });
+      this.exportStringParameter("hostedZoneId", hz.hostedZoneId);
 
-      new StringParameter(this, "CertificateArnParameter", {
-        parameterName: `/${id}/Certificate/certificateArn`,
-        stringValue: cert.certificateArn,
-      });
+      this.exportStringParameter("certificateArn", cert.certificateArn);
     }
 
+    // every database is included in any backup plan
+    const databaseArns: string[] = [];
+
+    // the bootstraps of every database run in the one cluster (created on first use)
+    let bootstrapCluster: Cluster | undefined;
+
+    // a bastion in a new VPC with no NAT can only be reached through the SSM endpoints
+    if (
+      props.bastion &&
+      props.network.vpcNameOrDefaultOrUndefined === undefined &&
+      props.network.natGateways === 0 &&
+      !props.network.interfaceEndpoints?.includes("ssm")
+    )
+      throw new Error(
+        "The bastion cannot be reached in a VPC with natGateways of 0 unless the network has the ssm interfaceEndpoints",
+      );
+
+    // every database (and EdgeDb) can be reached from any bastion
+    const bastion = props.bastion
+      ? new BastionConstruct(this, "Bastion", { vpc: vpc, ...props.bastion })
+      : undefined;
+
+    if (bastion) {
+      this.exportStringParameter("bastionInstanceId", bastion.instanceId);
+
+      interfaceEndpoints?.allowFrom(bastion);
+    }
+
+    // every database (and EdgeDb) is added to any alarms and dashboard
+    const observability = props.observability
+      ? new ObservabilityConstruct(this, "Observability", props.observability)
+      : undefined;
+
     if (props.databases) {
       for (const dbConfig of props.databases) {
         if (!/[a-zA-Z0-9_.]+/.test(dbConfig.name))
@@ -347,57 +409,90 @@ export class InfrastructureStack extends Stack {
             `The database name ${dbConfig.name} doesn't meet the limited list of allowed characters (the name is used in SSM etc)`,
           );
 
-        let cdkIdSafeDbName = camelCase(dbConfig.name);
+        if (!isDevelopment) this.checkNoDevelopmentOnlySettings(dbConfig);
 
         // from above - the length of this must be > 0
-        // anyhow we want first chat to be capital if possible
-        cdkIdSafeDbName =
-          cdkIdSafeDbName[0].toUpperCase() + cdkIdSafeDbName.slice(1);
-
-        // create a new secret for our base database with an autogenerated password
-        const baseDbSecret = new secretsmanager.Secret(
-          this,
-          `${cdkIdSafeDbName}Secret`,
-          {
-            description: `For database ${dbConfig.name} - secret containing RDS details such as admin username and password`,
-            secretName: props.secretsPrefix
-              ? `${props.secretsPrefix}${cdkIdSafeDbName}Rds`
-              : undefined,
-            generateSecretString: {
-              excludePunctuation: true,
-              secretStringTemplate: JSON.stringify({
-                username: dbConfig.adminUser,
-                password: "",
-              }),
-              generateStringKey: "password",
-            },
-          },
-        );
+        const cdkIdSafeDbName = cdkIdSafeName(dbConfig.name);
+
+        if (dbConfig.existing) this.checkNoCreationOnlySettings(dbConfig);
+
+        // for existing databases use their secret - otherwise create a new secret for
+        // our base database with an autogenerated password
+        const baseDbSecret: secretsmanager.ISecret = dbConfig.existing
+          ? secretsmanager.Secret.fromSecretCompleteArn(
+              this,
+              `${cdkIdSafeDbName}Secret`,
+              dbConfig.existing.adminSecretArn,
+            )
+          : new secretsmanager.Secret(this, `${cdkIdSafeDbName}Secret`, {
+              description: `For database ${dbConfig.name} - secret containing RDS details such as admin username and password`,
+              secretName: props.secretsPrefix
+                ? `${props.secretsPrefix}${cdkIdSafeDbName}Rds`
+                : undefined,
+              generateSecretString: {
+                excludePunctuation: true,
+                secretStringTemplate: JSON.stringify({
+                  username: dbConfig.adminUser,
+                  password: "",
+                }),
+                generateStringKey: "password",
+              },
+            });
 
         let baseDb: BaseDatabase;
 
-        switch (dbConfig.postgresType) {
-          case "postgres-instance":
-            baseDb = new InstanceBaseDatabase(this, cdkIdSafeDbName, {
-              vpc: vpc,
-              databaseName: dbConfig.name,
-              secret: baseDbSecret,
-              ...dbConfig,
-            });
-            break;
-          case "postgres-serverless-2":
-            baseDb = new ServerlessBaseDatabase(this, cdkIdSafeDbName, {
-              vpc: vpc,
-              databaseName: dbConfig.name,
-              secret: baseDbSecret,
-              ...dbConfig,
-            });
-            break;
-          default:
-            throw new Error(
-              `Unknown postgres database type ${dbConfig.postgresType}`,
-            );
-        }
+        if (dbConfig.existing)
+          baseDb = new ExistingBaseDatabase(this, cdkIdSafeDbName, {
+            databaseName: dbConfig.name,
+            secret: baseDbSecret,
+            ...dbConfig,
+          });
+        else
+          switch (dbConfig.postgresType) {
+            case "postgres-instance":
+              baseDb = new InstanceBaseDatabase(this, cdkIdSafeDbName, {
+                vpc: vpc,
+                databaseName: dbConfig.name,
+                secret: baseDbSecret,
+                isDevelopment: isDevelopment,
+                ...dbConfig,
+                destroyOnRemove: dbConfig.destroyOnRemove ?? isDevelopment,
+              });
+              break;
+            case "postgres-serverless-2":
+              baseDb = new ServerlessBaseDatabase(this, cdkIdSafeDbName, {
+                vpc: vpc,
+                databaseName: dbConfig.name,
+                secret: baseDbSecret,
+                isDevelopment: isDevelopment,
+                ...dbConfig,
+                destroyOnRemove: dbConfig.destroyOnRemove ?? isDevelopment,
+              });
+              break;
+            default:
+              throw new Error(
+                `Unknown postgres database type ${dbConfig.postgresType}`,
+              );
+          }
+
+        databaseArns.push(baseDb.arn);
+
+        observability?.addDatabase(cdkIdSafeDbName, dbConfig, baseDb);
+
+        // anything working on the database (the rotation and bootstrap) may need to
+        // reach AWS APIs through the endpoints
+        for (const securityGroup of [
+          baseDb.securityGroup,
+          ...baseDb.egressSecurityGroups,
+        ])
+          interfaceEndpoints?.allowFrom(securityGroup);
+
+        bastion?.addTarget(
+          cdkIdSafeDbName,
+          baseDb.securityGroup,
+          baseDb.hostname,
+          baseDb.port,
+        );
 
         // TODO this actually resolves our tokens as it stores it - which is not what
         // new StringParameter(this, "DatabaseDsnWithTokensParameter", {
@@ -406,68 +501,155 @@ export class InfrastructureStack extends Stack {
         //});
 
         // we want
-        new StringParameter(
-          this,
-          `${cdkIdSafeDbName}DatabaseDsnWithPasswordParameter`,
-          {
-            parameterName: `/${id}/Database/${dbConfig.name}/dsnWithPassword`,
-            stringValue: baseDb.dsnWithTokens,
-          },
+        this.exportStringParameter(
+          "databaseDsnWithPassword",
+          baseDb.dsnWithTokens,
+          dbConfig.name,
         );
 
-        new StringParameter(
-          this,
-          `${cdkIdSafeDbName}DatabaseDsnNoPasswordParameter`,
-          {
-            parameterName: `/${id}/Database/${dbConfig.name}/dsnNoPassword`,
-            stringValue: baseDb.dsnNoPassword,
-          },
+        this.exportStringParameter(
+          "databaseDsnNoPassword",
+          baseDb.dsnNoPassword,
+          dbConfig.name,
         );
 
-        new StringParameter(
-          this,
-          `${cdkIdSafeDbName}DatabaseHostnameParameter`,
-          {
-            parameterName: `/${id}/Database/${dbConfig.name}/hostname`,
-            stringValue: baseDb.hostname,
-          },
+        this.exportStringParameter(
+          "databaseHostname",
+          baseDb.hostname,
+          dbConfig.name,
         );
 
-        new StringParameter(this, `${cdkIdSafeDbName}DatabasePortParameter`, {
-          parameterName: `/${id}/Database/${dbConfig.name}/port`,
-          stringValue: baseDb.port.toString(),
-        });
-
-        new StringParameter(
-          this,
-          `${cdkIdSafeDbName}DatabaseAdminUserParameter`,
-          {
-            parameterName: `/${id}/Database/${dbConfig.name}/adminUser`,
-            stringValue: dbConfig.adminUser,
-          },
+        if (baseDb.readerHostname)
+          this.exportStringParameter(
+            "databaseReaderHostname",
+            baseDb.readerHostname,
+            dbConfig.name,
+          );
+
+        this.exportStringParameter(
+          "databasePort",
+          Tokenization.stringifyNumber(baseDb.port),
+          dbConfig.name,
         );
 
-        new StringParameter(
-          this,
-          `${cdkIdSafeDbName}DatabaseAdminPasswordSecretArnParameter`,
-          {
-            parameterName: `/${id}/Database/${dbConfig.name}/adminPasswordSecretArn`,
-            stringValue: baseDbSecret.secretArn,
-          },
+        this.exportStringParameter(
+          "databaseAdminUser",
+          dbConfig.adminUser,
+          dbConfig.name,
         );
 
-        new StringParameter(
-          this,
-          `${cdkIdSafeDbName}DatabaseSecurityGroupIdParameter`,
-          {
-            parameterName: `/${id}/Database/${dbConfig.name}/securityGroupId`,
-            stringValue: baseDb.securityGroup.securityGroupId,
-          },
+        this.exportStringParameter(
+          "databaseAdminPasswordSecretArn",
+          baseDbSecret.secretArn,
+          dbConfig.name,
         );
 
+        this.exportStringParameter(
+          "databaseSecurityGroupId",
+          baseDb.securityGroup.securityGroupId,
+          dbConfig.name,
+        );
+
+        if (dbConfig.enableIamAuthentication)
+          this.exportStringParameter(
+            "databaseResourceId",
+            baseDb.resourceId,
+            dbConfig.name,
+          );
+
+        if (baseDb.proxy && baseDb.proxySecurityGroup) {
+          this.exportStringParameter(
+            "databaseProxyHostname",
+            baseDb.proxy.endpoint,
+            dbConfig.name,
+          );
+
+          this.exportStringParameter(
+            "databaseProxyDsnNoPassword",
+            baseDb.proxyDsnNoPassword!,
+            dbConfig.name,
+          );
+
+          this.exportStringParameter(
+            "databaseProxyName",
+            baseDb.proxy.dbProxyName,
+            dbConfig.name,
+          );
+
+          this.exportStringParameter(
+            "databaseProxyArn",
+            baseDb.proxy.dbProxyArn,
+            dbConfig.name,
+          );
+
+          this.exportStringParameter(
+            "databaseProxySecurityGroupId",
+            baseDb.proxySecurityGroup.securityGroupId,
+            dbConfig.name,
+          );
+        }
+
+        if (dbConfig.bootstrap) {
+          for (const role of dbConfig.bootstrap.roles ?? [])
+            if (role.rdsIam && !dbConfig.enableIamAuthentication)
+              throw new Error(
+                `The Postgres role ${role.name} of database ${dbConfig.name} uses rdsIam so the database must have enableIamAuthentication`,
+              );
+
+          if (!bootstrapCluster)
+            bootstrapCluster = new Cluster(this, "BootstrapCluster", {
+              vpc: vpc,
+            });
+
+          const bootstrap = new PostgresBootstrapConstruct(
+            this,
+            `${cdkIdSafeDbName}Bootstrap`,
+            {
+              vpc: vpc,
+              cluster: bootstrapCluster,
+              secretsPrefix: props.secretsPrefix,
+              databaseName: dbConfig.name,
+              cdkIdSafeDbName: cdkIdSafeDbName,
+              hostname: baseDb.hostname,
+              port: baseDb.port,
+              adminSecret: baseDbSecret,
+              securityGroup: baseDb.securityGroup,
+              logRetention: logRetention,
+              ...dbConfig.bootstrap,
+            },
+          );
+
+          // the bootstrap can only happen once the database is up
+          bootstrap.node.addDependency(baseDb);
+
+          interfaceEndpoints?.allowFrom(bootstrap.egressSecurityGroup);
+
+          this.exportRoleSecretArnsParameter(
+            "databaseRoleSecretArns",
+            bootstrap.roleSecrets,
+            dbConfig.name,
+          );
+        }
+
         if (dbConfig.edgeDb) {
           // there are some conditions we need to abort on
-          if (dbConfig.edgeDb.makePubliclyReachable)
+          if (dbConfig.rotateAdminPasswordAfter)
+            throw new Error(
+              `The database ${dbConfig.name} cannot rotate its admin password as EdgeDb holds the admin password in its backend DSN`,
+            );
+
+          if (
+            dbConfig.edgeDb.makePubliclyReachable &&
+            dbConfig.edgeDb.privateUi
+          )
+            throw new Error(
+              `The EdgeDb of database ${dbConfig.name} cannot have both a public (makePubliclyReachable) and private (privateUi) UI`,
+            );
+
+          const edgeDbUi =
+            dbConfig.edgeDb.makePubliclyReachable ?? dbConfig.edgeDb.privateUi;
+
+          if (edgeDbUi)
             if (!cert || !hz)
               throw new Error(
                 "If the UI is going to be switched on for EdgeDb then a certificate and hosted zone also needs to be specified",
@@ -484,64 +666,331 @@ export class InfrastructureStack extends Stack {
             edgeDbService: {
               baseDbDsn: baseDb.dsnWithTokens,
               baseDbSecurityGroup: baseDb.securityGroup,
-              desiredCount: 1,
+              desiredCount: dbConfig.edgeDb.desiredCount ?? 1,
+              circuitBreaker: dbConfig.edgeDb.deploymentCircuitBreaker
+                ? {
+                    rollback:
+                      dbConfig.edgeDb.deploymentCircuitBreaker.rollback ??
+                      false,
+                  }
+                : undefined,
               cpu: dbConfig.edgeDb.cpu ?? 1024,
               memory: dbConfig.edgeDb.memoryLimitMiB ?? 2048,
               superUser: "elsa_superuser",
               edgeDbVersion: dbConfig.edgeDb.version,
-              enableUiFeatureFlag: !!dbConfig.edgeDb.makePubliclyReachable,
+              imageUri: edgeDbImageUri(dbConfig.name, dbConfig.edgeDb),
+              flavour: edgeDbFlavour(dbConfig.edgeDb.flavour),
+              cpuArchitecture:
+                dbConfig.edgeDb.cpuArchitecture ?? CpuArchitecture.ARM64,
+              logLevel: isDevelopment ? "debug" : "info",
+              logRetention: logRetention,
+              enableUiFeatureFlag: !!edgeDbUi,
+              // the running task count alarm needs the container insights metrics
+              containerInsights: observability ? true : undefined,
             },
             edgeDbLoadBalancerProtocol: {
               tcpPassthroughPort: dbConfig.edgeDb.dbPort || 5656,
             },
-            edgeDbLoadBalancerUi: dbConfig.edgeDb.makePubliclyReachable
+            edgeDbLoadBalancerUi: edgeDbUi
               ? {
-                  hostedPort:
-                    dbConfig.edgeDb.makePubliclyReachable.uiPort ?? 443,
-                  hostedPrefix: dbConfig.edgeDb.makePubliclyReachable.urlPrefix,
+                  internetFacing: !!dbConfig.edgeDb.makePubliclyReachable,
+                  hostedPort: edgeDbUi.uiPort ?? 443,
+                  hostedPrefix: edgeDbUi.urlPrefix,
                   hostedCertificate: cert!,
                   hostedZone: hz!,
+                  // without an allow-list, a public UI is open to the internet (only
+                  // possible in development) and a private UI is open to the VPC
+                  allowedPeers: this.edgeDbUiAllowedPeers(
+                    edgeDbUi,
+                    dbConfig.edgeDb.makePubliclyReachable
+                      ? Peer.anyIpv4()
+                      : Peer.ipv4(vpc.vpcCidrBlock),
+                  ),
+                }
+              : undefined,
+            rotateSuperUserPasswordAfter:
+              dbConfig.edgeDb.rotateSuperUserPasswordAfter,
+            edgeDbAutoScaling: this.edgeDbAutoScaling(dbConfig),
+            edgeDbBootstrap: dbConfig.edgeDb.bootstrap
+              ? {
+                  databases: dbConfig.edgeDb.bootstrap.databases ?? [],
+                  roles: dbConfig.edgeDb.bootstrap.roles ?? [],
                 }
               : undefined,
           });
 
-          new StringParameter(
-            this,
-            `${cdkIdSafeDbName}DatabaseEdgeDbDsnNoPasswordOrDatabaseParameter`,
-            {
-              parameterName: databaseEdgeDbDsnNoPasswordOrDatabaseParameterName(
-                id,
-                dbConfig.name,
-              ),
-              stringValue: edgeDb.dsnForEnvironmentVariable,
-            },
+          observability?.addEdgeDb(cdkIdSafeDbName, dbConfig, edgeDb);
+
+          for (const securityGroup of [
+            edgeDb.securityGroup,
+            ...edgeDb.egressSecurityGroups,
+          ])
+            interfaceEndpoints?.allowFrom(securityGroup);
+
+          bastion?.addTarget(
+            `${cdkIdSafeDbName}EdgeDb`,
+            edgeDb.securityGroup,
+            edgeDb.hostname,
+            edgeDb.port,
           );
 
-          new StringParameter(
-            this,
-            `${cdkIdSafeDbName}DatabaseEdgeDbAdminPasswordSecretArnParameter`,
-            {
-              parameterName: databaseEdgeDbAdminPasswordSecretArnParameterName(
-                id,
-                dbConfig.name,
-              ),
-              stringValue: edgeDb.passwordSecret.secretArn,
-            },
+          this.exportStringParameter(
+            "databaseEdgeDbDsnNoPasswordOrDatabase",
+            edgeDb.dsnForEnvironmentVariable,
+            dbConfig.name,
           );
 
-          new StringParameter(
-            this,
-            `${cdkIdSafeDbName}DatabaseEdgeDbSecurityGroupIdParameter`,
-            {
-              parameterName: databaseEdgeDbSecurityGroupIdParameterName(
-                id,
-                dbConfig.name,
-              ),
-              stringValue: edgeDb.securityGroup.securityGroupId,
-            },
+          this.exportStringParameter(
+            "databaseEdgeDbAdminPasswordSecretArn",
+            edgeDb.passwordSecret.secretArn,
+            dbConfig.name,
+          );
+
+          this.exportStringParameter(
+            "databaseEdgeDbSecurityGroupId",
+            edgeDb.securityGroup.securityGroupId,
+            dbConfig.name,
+          );
+
+          this.exportRoleSecretArnsParameter(
+            "databaseEdgeDbRoleSecretArns",
+            edgeDb.roleSecrets,
+            dbConfig.name,
           );
         }
       }
     }
+
+    if (props.backup) {
+      const backup = new BackupConstruct(this, "Backup", {
+        isDevelopment: isDevelopment,
+        databaseArns: databaseArns,
+        ...props.backup,
+      });
+
+      this.exportStringParameter("backupVaultArn", backup.vault.backupVaultArn);
+    }
+  }
+
+  /**
+   * Export a string (or ARN) value to SSM parameter store at the path given by the
+   * parameter manifest.
+   *
+   * @param key the parameter in the manifest
+   * @param value
+   * @param databaseName for per database parameters, the name of the database
+   * @private
+   */
+  private exportStringParameter(
+    key: StringParameterKey | ArnParameterKey,
+    value: string,
+    databaseName?: string,
+  ) {
+    new StringParameter(this, this.parameterConstructId(key, databaseName), {
+      parameterName: parameterPath(key, this.node.id, databaseName),
+      stringValue: value,
+    });
+  }
+
+  /**
+   * Export the ARNs of the secrets of bootstrapped roles as a JSON object (of role name
+   * to secret ARN) - if there are any roles.
+   *
+   * @param key the parameter in the manifest
+   * @param roleSecrets the secrets by role name
+   * @param databaseName the name of the database the roles belong to
+   * @private
+   */
+  private exportRoleSecretArnsParameter(
+    key: "databaseRoleSecretArns" | "databaseEdgeDbRoleSecretArns",
+    roleSecrets: { [role: string]: ISecret },
+    databaseName: string,
+  ) {
+    const roleSecretArns: { [role: string]: string } = {};
+
+    for (const [role, secret] of Object.entries(roleSecrets))
+      roleSecretArns[role] = secret.secretArn;
+
+    if (Object.keys(roleSecretArns).length > 0)
+      this.exportStringParameter(
+        key,
+        this.toJsonString(roleSecretArns),
+        databaseName,
+      );
+  }
+
+  /**
+   * Export a list of string values to SSM parameter store at the path given by the
+   * parameter manifest.
+   *
+   * @param key the parameter in the manifest
+   * @param values
+   * @private
+   */
+  private exportStringListParameter(
+    key: StringListParameterKey,
+    values: string[],
+  ) {
+    new StringListParameter(this, this.parameterConstructId(key), {
+      parameterName: parameterPath(key, this.node.id),
+      stringListValue: values,
+    });
+  }
+
+  /**
+   * The id of the construct for a parameter - which has to remain stable as
+   * CloudFormation cannot replace a parameter with a new one of the same name.
+   *
+   * @param key the parameter in the manifest
+   * @param databaseName for per database parameters, the name of the database
+   * @private
+   */
+  private parameterConstructId(key: ParameterKey, databaseName?: string) {
+    const constructId = PARAMETER_MANIFEST[key].constructId;
+
+    return databaseName
+      ? cdkIdSafeName(databaseName) + constructId
+      : constructId;
+  }
+
+  /**
+   * Check the EdgeDb task counts of a database and return the scaling (if any)
+   * they ask for.
+   *
+   * @param dbConfig
+   * @private
+   */
+  private edgeDbAutoScaling(
+    dbConfig: PostgresCommon,
+  ): EdgeDbAutoScalingProps | undefined {
+    const edgeDb = dbConfig.edgeDb!;
+    const desiredCount = edgeDb.desiredCount ?? 1;
+    const minCount = edgeDb.minCount ?? desiredCount;
+    const maxCount = edgeDb.maxCount ?? desiredCount;
+
+    if (
+      ![desiredCount, minCount, maxCount].every(Number.isInteger) ||
+      minCount < 1 ||
+      minCount > desiredCount ||
+      desiredCount > maxCount
+    )
+      throw new Error(
+        `The EdgeDb of database ${dbConfig.name} must have task counts where 1 <= minCount <= desiredCount <= maxCount`,
+      );
+
+    const hasTarget =
+      edgeDb.scaleOnCpuUtilization !== undefined ||
+      edgeDb.scaleOnConnectionsPerTask !== undefined;
+
+    if (edgeDb.maxCount === undefined) {
+      if (hasTarget || edgeDb.minCount !== undefined)
+        throw new Error(
+          `The EdgeDb of database ${dbConfig.name} needs a maxCount in order to scale`,
+        );
+
+      return undefined;
+    }
+
+    if (!hasTarget)
+      throw new Error(
+        `The EdgeDb of database ${dbConfig.name} needs a scaling target (scaleOnCpuUtilization or scaleOnConnectionsPerTask) in order to scale`,
+      );
+
+    return {
+      minCount: minCount,
+      maxCount: maxCount,
+      cpuUtilization: edgeDb.scaleOnCpuUtilization,
+      connectionsPerTask: edgeDb.scaleOnConnectionsPerTask,
+    };
+  }
+
+  /**
+   * Abort synthesis if an existing (imported) database is asking for settings
+   * that only apply when the database is created by this stack.
+   *
+   * @param dbConfig
+   * @private
+   */
+  private checkNoCreationOnlySettings(dbConfig: PostgresCommon) {
+    const creationOnly = (
+      [
+        "snapshotIdentifier",
+        "engineVersion",
+        "parameters",
+        "destroyOnRemove",
+        "makePubliclyReachable",
+        "overrideAllocatedStorage",
+        "enableMonitoring",
+        "rotateAdminPasswordAfter",
+        "enableProxy",
+        "instanceType",
+        "multiAz",
+        "minCapacity",
+        "maxCapacity",
+        "readers",
+        "readersScaleWithWriter",
+      ] as const
+    ).filter((setting) => dbConfig[setting] !== undefined);
+
+    if (creationOnly.length > 0)
+      throw new Error(
+        `The database ${
+          dbConfig.name
+        } is an existing database so cannot use settings (${creationOnly.join(
+          ", ",
+        )}) that configure the creation of a database`,
+      );
+  }
+
+  /**
+   * The peers that are allowed to reach an EdgeDb UI - the allow-list if
+   * there is one, otherwise the default peer.
+   *
+   * @param edgeDbUi the public or private UI settings
+   * @param defaultPeer
+   * @private
+   */
+  private edgeDbUiAllowedPeers(
+    edgeDbUi: EdgeDbPublic | EdgeDbPrivateUi,
+    defaultPeer: IPeer,
+  ): IPeer[] {
+    const peers = (edgeDbUi.allowedCidrs ?? []).map((cidr) =>
+      cidr.includes(":") ? Peer.ipv6(cidr) : Peer.ipv4(cidr),
+    );
+
+    if (edgeDbUi.allowedPrefixListId)
+      peers.push(Peer.prefixList(edgeDbUi.allowedPrefixListId));
+
+    return peers.length > 0 ? peers : [defaultPeer];
+  }
+
+  /**
+   * Abort synthesis if a database in a non-development infrastructure is asking
+   * for settings that are only safe for development data.
+   *
+   * @param dbConfig
+   * @private
+   */
+  private checkNoDevelopmentOnlySettings(dbConfig: PostgresCommon) {
+    const devOnly: string[] = [];
+
+    if (dbConfig.destroyOnRemove) devOnly.push("destroyOnRemove");
+    if (dbConfig.makePubliclyReachable) devOnly.push("makePubliclyReachable");
+    // a public UI is allowed in production - as long as only the allow-list can reach it
+    if (
+      dbConfig.edgeDb?.makePubliclyReachable &&
+      !dbConfig.edgeDb.makePubliclyReachable.allowedCidrs?.length &&
+      !dbConfig.edgeDb.makePubliclyReachable.allowedPrefixListId
+    )
+      devOnly.push(
+        "edgeDb.makePubliclyReachable without allowedCidrs or allowedPrefixListId",
+      );
+
+    if (devOnly.length > 0)
+      throw new Error(
+        `The database ${dbConfig.name} asks for settings (${devOnly.join(
+          ", ",
+        )}) that are only allowed when isDevelopment is set`,
+      );
   }
 }
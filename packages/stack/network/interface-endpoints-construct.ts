@@ -0,0 +1,115 @@
+import { Construct } from "constructs";
+import {
+  GatewayVpcEndpointAwsService,
+  IConnectable,
+  InterfaceVpcEndpointAwsService,
+  ISecurityGroup,
+  IVpc,
+  Port,
+  SecurityGroup,
+  SubnetType,
+} from "aws-cdk-lib/aws-ec2";
+import { InfrastructureStackNetworkProps } from "../infrastructure-stack-props";
+
+export type InterfaceEndpointName = NonNullable<
+  InfrastructureStackNetworkProps["interfaceEndpoints"]
+>[number];
+
+// some of the endpoint names cover more than one AWS service - i.e. SSM Session Manager
+// (used by any bastion) also needs the messages services
+const SERVICES: {
+  [name in InterfaceEndpointName]: {
+    [id: string]: InterfaceVpcEndpointAwsService;
+  };
+} = {
+  secretsmanager: {
+    SecretsManager: InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+  },
+  ssm: {
+    Ssm: InterfaceVpcEndpointAwsService.SSM,
+    SsmMessages: InterfaceVpcEndpointAwsService.SSM_MESSAGES,
+    Ec2Messages: InterfaceVpcEndpointAwsService.EC2_MESSAGES,
+  },
+  ecr: {
+    Ecr: InterfaceVpcEndpointAwsService.ECR,
+    EcrDkr: InterfaceVpcEndpointAwsService.ECR_DOCKER,
+  },
+  logs: {
+    Logs: InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS,
+  },
+  sts: {
+    Sts: InterfaceVpcEndpointAwsService.STS,
+  },
+  kms: {
+    Kms: InterfaceVpcEndpointAwsService.KMS,
+  },
+};
+
+type Props = {
+  // the (new) VPC to add the endpoints to
+  vpc: IVpc;
+
+  // the endpoints to add (duplicates are ignored)
+  endpoints: InterfaceEndpointName[];
+
+  // the security group for general resources in the VPC - whose members can use the endpoints
+  vpcSecurityGroup: ISecurityGroup;
+};
+
+/**
+ * Interface endpoints that let resources in the VPC reach AWS services without
+ * going through the NAT. Rather than being open to the whole VPC, the endpoints
+ * can only be used by members of the VPC security group - and anything
+ * else (i.e. EdgeDb) that is explicitly allowed.
+ */
+export class InterfaceEndpointsConstruct extends Construct {
+  private readonly _securityGroup: SecurityGroup;
+
+  constructor(scope: Construct, id: string, props: Props) {
+    super(scope, id);
+
+    this._securityGroup = new SecurityGroup(this, "SecurityGroup", {
+      vpc: props.vpc,
+      allowAllOutbound: false,
+      allowAllIpv6Outbound: false,
+      description:
+        "Security group for the interface endpoints that allows HTTPS from the VPC security group",
+    });
+
+    this.allowFrom(props.vpcSecurityGroup);
+
+    for (const name of new Set(props.endpoints)) {
+      for (const [serviceId, service] of Object.entries(SERVICES[name])) {
+        // btw https://github.com/aws/aws-cdk/issues/19332
+        // in case you wonder why these are not tagged automatically
+        // https://github.com/aws-cloudformation/cloudformation-coverage-roadmap/issues/196
+        props.vpc.addInterfaceEndpoint(serviceId + "Endpoint", {
+          service: service,
+          privateDnsEnabled: true,
+          subnets: {
+            subnetType: SubnetType.PRIVATE_ISOLATED,
+          },
+          securityGroups: [this._securityGroup],
+          open: false,
+        });
+      }
+    }
+
+    // ECR serves image layers from S3 - a gateway endpoint (which has no cost) lets
+    // images be pulled without the NAT
+    if (props.endpoints.includes("ecr"))
+      props.vpc.addGatewayEndpoint("S3Endpoint", {
+        service: GatewayVpcEndpointAwsService.S3,
+      });
+  }
+
+  /**
+   * Allow something other than the members of the VPC security group to use
+   * the endpoints.
+   *
+   * @param other
+   */
+  public allowFrom(other: IConnectable) {
+    this._securityGroup.connections.allowFrom(other, Port.tcp(443));
+  }
+}
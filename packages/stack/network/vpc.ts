@@ -1,11 +1,7 @@
-import { StackProps } from "aws-cdk-lib";
 import { Construct } from "constructs";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
-import {
-  InterfaceVpcEndpointAwsService,
-  IVpc,
-  SubnetType,
-} from "aws-cdk-lib/aws-ec2";
+import { IVpc } from "aws-cdk-lib/aws-ec2";
+import { InfrastructureStackNetworkProps } from "../infrastructure-stack-props";
 
 // matching lodash isNil - but without importing all of lodash
 function isNil(value: any) {
@@ -18,44 +14,39 @@ function isNil(value: any) {
  *
  * @param scope
  * @param id
- * @param vpcNameOrDefaultOrUndefined either an existing VPC id, the string "default" to indicate to let CDK pick the VPC, or undefined to indicate a new VPC should be created
- * @param enableEcrEndpoints if creating a new VPC, this indicates whether we should install the endpoints to enable private ECR
+ * @param network the network settings - where vpcNameOrDefaultOrUndefined is either an existing VPC id, the string "default" to indicate to let CDK pick the VPC, or undefined to indicate a new VPC should be created (using the rest of the settings)
  */
 export function smartVpcConstruct(
   scope: Construct,
   id: string,
-  vpcNameOrDefaultOrUndefined?: string,
-  enableEcrEndpoints?: boolean,
+  network: InfrastructureStackNetworkProps,
 ): IVpc {
+  const vpcNameOrDefaultOrUndefined = network.vpcNameOrDefaultOrUndefined;
+
   // if no vpc details are given then we construct a new VPC
   if (isNil(vpcNameOrDefaultOrUndefined)) {
-    const vpc = new NatVPC(scope, id);
+    return new NatVPC(scope, id, network);
+  }
 
-    // btw https://github.com/aws/aws-cdk/issues/19332
-    // in case you wonder why these are not tagged automatically
-    // https://github.com/aws-cloudformation/cloudformation-coverage-roadmap/issues/196
+  const newVpcOnlySettings: (keyof InfrastructureStackNetworkProps)[] = [
+    "cidr",
+    "maxAzs",
+    "natGateways",
+    "natInstanceType",
+    "ingressSubnetCidrMask",
+    "applicationSubnetCidrMask",
+    "databaseSubnetCidrMask",
+    "interfaceEndpoints",
+  ];
 
-    const addEndpoint = (
-      name: string,
-      service: InterfaceVpcEndpointAwsService,
-    ) => {
-      vpc.addInterfaceEndpoint(name + "Endpoint", {
-        service: service,
-        privateDnsEnabled: true,
-        subnets: {
-          subnetType: SubnetType.PRIVATE_ISOLATED,
-        },
-      });
-    };
+  const newVpcSettings = newVpcOnlySettings.filter((k) => !isNil(network[k]));
 
-    if (enableEcrEndpoints) {
-      addEndpoint("Ecr", InterfaceVpcEndpointAwsService.ECR);
-      addEndpoint("EcrDkr", InterfaceVpcEndpointAwsService.ECR_DOCKER);
-      addEndpoint("Logs", InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS);
-    }
-
-    return vpc;
-  }
+  if (newVpcSettings.length > 0)
+    throw new Error(
+      `The network settings ${newVpcSettings.join(
+        ", ",
+      )} only apply when constructing a new VPC - not when using VPC ${vpcNameOrDefaultOrUndefined}`,
+    );
 
   // if they ask for the special name default then we use the VPC defaulting mechanism (via CDK lookup)
   if (vpcNameOrDefaultOrUndefined === "default")
@@ -68,23 +59,47 @@ export function smartVpcConstruct(
     vpcName: vpcNameOrDefaultOrUndefined,
   });
 }
+
 class NatVPC extends ec2.Vpc {
-  constructor(scope: Construct, id: string, _props?: StackProps) {
+  constructor(
+    scope: Construct,
+    id: string,
+    props: InfrastructureStackNetworkProps,
+  ) {
+    if (props.natInstanceType && props.natGateways === 0)
+      throw new Error(
+        "The network settings cannot ask for NAT instances (natInstanceType) with natGateways of 0",
+      );
+
+    // the NAT instances only allow in traffic from the VPC (added below) - the default
+    // would be to allow in traffic from anywhere
+    const natInstanceProvider = props.natInstanceType
+      ? ec2.NatProvider.instance({
+          instanceType: props.natInstanceType,
+          defaultAllowedTraffic: ec2.NatTrafficDirection.OUTBOUND_ONLY,
+        })
+      : undefined;
+
     super(scope, id, {
-      maxAzs: 99, // 99 will mean that the VPC expands to consume as many AZs as it can in the region
-      natGateways: 1,
+      ipAddresses: props.cidr ? ec2.IpAddresses.cidr(props.cidr) : undefined,
+      maxAzs: props.maxAzs ?? 99, // 99 will mean that the VPC expands to consume as many AZs as it can in the region
+      natGateways: props.natGateways ?? 1,
+      natGatewayProvider: natInstanceProvider,
       subnetConfiguration: [
         {
           name: "ingress",
           subnetType: ec2.SubnetType.PUBLIC,
+          cidrMask: props.ingressSubnetCidrMask,
         },
         {
           name: "application",
           subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+          cidrMask: props.applicationSubnetCidrMask,
         },
         {
           name: "database",
           subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+          cidrMask: props.databaseSubnetCidrMask,
         },
       ],
       enableDnsHostnames: true,
@@ -100,5 +115,10 @@ class NatVPC extends ec2.Vpc {
         },
       },
     });
+
+    natInstanceProvider?.connections.allowFrom(
+      ec2.Peer.ipv4(this.vpcCidrBlock),
+      ec2.Port.allTraffic(),
+    );
   }
 }
@@ -0,0 +1,255 @@
+import { Duration } from "aws-cdk-lib";
+import { Construct } from "constructs";
+import {
+  Alarm,
+  ComparisonOperator,
+  Dashboard,
+  GraphWidget,
+  Metric,
+  TextWidget,
+  TreatMissingData,
+} from "aws-cdk-lib/aws-cloudwatch";
+import { SnsAction } from "aws-cdk-lib/aws-cloudwatch-actions";
+import { ITopic, Topic } from "aws-cdk-lib/aws-sns";
+import { EmailSubscription } from "aws-cdk-lib/aws-sns-subscriptions";
+import { InfrastructureStackObservabilityProps } from "../infrastructure-stack-props";
+import { PostgresCommon } from "../infrastructure-stack-database-props";
+import { BaseDatabase } from "../rds/base-database";
+import { EdgeDbConstruct } from "../edge-db/edge-db-construct";
+
+type Props = InfrastructureStackObservabilityProps;
+
+// all our alarms look at 3 consecutive 5 minute periods - so that short spikes
+// (i.e. a burst of queries) do not alarm
+const PERIOD = Duration.minutes(5);
+const EVALUATION_PERIODS = 3;
+
+/**
+ * CloudWatch alarms (sent to an SNS topic) and a dashboard for the databases (and any EdgeDb
+ * in front of them) of the infrastructure. Databases and EdgeDbs are added as they
+ * are created - each getting a row in the dashboard.
+ */
+export class ObservabilityConstruct extends Construct {
+  private readonly _topic: Topic;
+  private readonly _dashboard: Dashboard;
+  private readonly _databaseConnectionsThreshold: number;
+
+  constructor(scope: Construct, id: string, props: Props) {
+    super(scope, id);
+
+    this._topic = new Topic(this, "AlarmTopic");
+
+    for (const emailAddress of props.alarmEmailAddresses ?? [])
+      this._topic.addSubscription(new EmailSubscription(emailAddress));
+
+    this._dashboard = new Dashboard(this, "Dashboard", {
+      dashboardName: props.dashboardName,
+    });
+
+    this._databaseConnectionsThreshold =
+      props.databaseConnectionsThreshold ?? 100;
+  }
+
+  /**
+   * Add alarms and a dashboard row for a database.
+   *
+   * @param id a CDK id safe name for the database
+   * @param dbConfig the configuration of the database
+   * @param baseDb the database
+   */
+  public addDatabase(
+    id: string,
+    dbConfig: PostgresCommon,
+    baseDb: BaseDatabase,
+  ) {
+    const cpu = baseDb.metric("CPUUtilization");
+    const connections = baseDb.metric("DatabaseConnections");
+
+    this.addAlarm(`${id}CpuAlarm`, {
+      description: `The CPU of the database ${dbConfig.name} is above 80%`,
+      metric: cpu,
+      threshold: 80,
+      comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+
+    this.addAlarm(`${id}ConnectionsAlarm`, {
+      description: `The database ${dbConfig.name} has more than ${this._databaseConnectionsThreshold} connections`,
+      metric: connections,
+      threshold: this._databaseConnectionsThreshold,
+      comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+
+    const widgets = [
+      new GraphWidget({
+        title: "CPU Utilization (%)",
+        left: [cpu.with({ period: PERIOD })],
+      }),
+      new GraphWidget({
+        title: "Connections",
+        left: [connections.with({ period: PERIOD })],
+      }),
+    ];
+
+    if (dbConfig.postgresType === "postgres-instance") {
+      // aurora storage grows by itself - so free storage is only a concern of instances
+      const freeStorage = baseDb.metric("FreeStorageSpace");
+
+      this.addAlarm(`${id}FreeStorageAlarm`, {
+        description: `The database ${dbConfig.name} has less than 2 GiB of free storage`,
+        metric: freeStorage,
+        threshold: 2 * 1024 * 1024 * 1024,
+        comparisonOperator: ComparisonOperator.LESS_THAN_THRESHOLD,
+      });
+
+      widgets.push(
+        new GraphWidget({
+          title: "Free Storage (bytes)",
+          left: [freeStorage.with({ period: PERIOD })],
+        }),
+      );
+    } else {
+      // the percentage of the maximum capacity the cluster is using - if this sits high
+      // then the max capacity probably needs raising
+      const acu = baseDb.metric("ACUUtilization");
+
+      this.addAlarm(`${id}AcuAlarm`, {
+        description: `The database ${dbConfig.name} is using more than 90% of its maximum capacity`,
+        metric: acu,
+        threshold: 90,
+        comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+      });
+
+      widgets.push(
+        new GraphWidget({
+          title: "ACU Utilization (%)",
+          left: [acu.with({ period: PERIOD })],
+        }),
+      );
+    }
+
+    this._dashboard.addWidgets(
+      new TextWidget({
+        markdown: `## Database ${dbConfig.name}`,
+        width: 24,
+        height: 1,
+      }),
+    );
+    this._dashboard.addWidgets(...widgets);
+  }
+
+  /**
+   * Add alarms and a dashboard row for an EdgeDb. The cluster of the EdgeDb service
+   * must have Container Insights switched on (for the running task count).
+   *
+   * @param id a CDK id safe name for the database the EdgeDb is in front of
+   * @param dbConfig the configuration of the database the EdgeDb is in front of
+   * @param edgeDb the EdgeDb
+   */
+  public addEdgeDb(
+    id: string,
+    dbConfig: PostgresCommon,
+    edgeDb: EdgeDbConstruct,
+  ) {
+    const cpu = edgeDb.service.metricCpuUtilization({ period: PERIOD });
+    const memory = edgeDb.service.metricMemoryUtilization({ period: PERIOD });
+    const runningTasks = new Metric({
+      namespace: "ECS/ContainerInsights",
+      metricName: "RunningTaskCount",
+      dimensionsMap: {
+        ClusterName: edgeDb.service.cluster.clusterName,
+        ServiceName: edgeDb.service.serviceName,
+      },
+      statistic: "Minimum",
+      period: PERIOD,
+    });
+    const healthyHosts = edgeDb.protocolTargetGroup.metrics.healthyHostCount({
+      statistic: "Minimum",
+      period: PERIOD,
+    });
+
+    this.addAlarm(`${id}EdgeDbCpuAlarm`, {
+      description: `The CPU of the EdgeDb of ${dbConfig.name} is above 80%`,
+      metric: cpu,
+      threshold: 80,
+      comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+
+    this.addAlarm(`${id}EdgeDbMemoryAlarm`, {
+      description: `The memory of the EdgeDb of ${dbConfig.name} is above 80%`,
+      metric: memory,
+      threshold: 80,
+      comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+
+    // for these the absence of data is itself a sign that the service is down
+    this.addAlarm(`${id}EdgeDbRunningTasksAlarm`, {
+      description: `The EdgeDb of ${dbConfig.name} has no running tasks`,
+      metric: runningTasks,
+      threshold: 1,
+      comparisonOperator: ComparisonOperator.LESS_THAN_THRESHOLD,
+      treatMissingData: TreatMissingData.BREACHING,
+    });
+
+    this.addAlarm(`${id}EdgeDbHealthyHostsAlarm`, {
+      description: `The load balancer of the EdgeDb of ${dbConfig.name} has no healthy targets`,
+      metric: healthyHosts,
+      threshold: 1,
+      comparisonOperator: ComparisonOperator.LESS_THAN_THRESHOLD,
+      treatMissingData: TreatMissingData.BREACHING,
+    });
+
+    this._dashboard.addWidgets(
+      new TextWidget({
+        markdown: `## EdgeDb ${dbConfig.name}`,
+        width: 24,
+        height: 1,
+      }),
+    );
+    this._dashboard.addWidgets(
+      new GraphWidget({
+        title: "CPU and Memory Utilization (%)",
+        left: [cpu, memory],
+      }),
+      new GraphWidget({
+        title: "Running Tasks",
+        left: [runningTasks],
+      }),
+      new GraphWidget({
+        title: "Healthy Hosts",
+        left: [healthyHosts],
+      }),
+    );
+  }
+
+  /**
+   * The topic that all alarms are sent to.
+   */
+  public get topic(): ITopic {
+    return this._topic;
+  }
+
+  private addAlarm(
+    id: string,
+    settings: {
+      description: string;
+      metric: Metric;
+      threshold: number;
+      comparisonOperator: ComparisonOperator;
+      treatMissingData?: TreatMissingData;
+    },
+  ) {
+    const alarm = new Alarm(this, id, {
+      alarmDescription: settings.description,
+      metric: settings.metric.with({ period: PERIOD }),
+      threshold: settings.threshold,
+      comparisonOperator: settings.comparisonOperator,
+      evaluationPeriods: EVALUATION_PERIODS,
+      // most of our metrics are only missing when there is nothing to measure
+      treatMissingData:
+        settings.treatMissingData ?? TreatMissingData.NOT_BREACHING,
+    });
+
+    alarm.addAlarmAction(new SnsAction(this._topic));
+    alarm.addOkAction(new SnsAction(this._topic));
+  }
+}
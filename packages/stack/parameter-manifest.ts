@@ -0,0 +1,493 @@
+/**
+ * The type of value stored in a SSM parameter exported by the infrastructure stack.
+ */
+export enum InfrastructureParameterType {
+  /**
+   * A plain string parameter
+   */
+  STRING = "String",
+
+  /**
+   * A string list parameter (a comma separated list of values)
+   */
+  STRING_LIST = "StringList",
+
+  /**
+   * A string parameter that holds the ARN of an AWS resource
+   */
+  ARN = "Arn",
+}
+
+/**
+ * A single value that is exported by the infrastructure stack
+ * via SSM parameter store.
+ */
+export interface InfrastructureParameter {
+  /**
+   * The unique (camel case) name of the value in the manifest
+   */
+  readonly name: string;
+
+  /**
+   * The SSM parameter path - if the infrastructure stack id or database name is not
+   * known then the path will contain the placeholders
+   * {infrastructureStackId} or {databaseName}
+   */
+  readonly path: string;
+
+  /**
+   * The type of value stored in the parameter
+   */
+  readonly parameterType: InfrastructureParameterType;
+
+  /**
+   * If true, the parameter is only created when the corresponding feature of
+   * the infrastructure is switched on (i.e. a namespace or EdgeDb)
+   */
+  readonly optional: boolean;
+
+  /**
+   * For parameters that exist per database, the name of the database
+   */
+  readonly databaseName?: string;
+
+  /**
+   * A description of the value
+   */
+  readonly description: string;
+}
+
+const STACK_ID_PLACEHOLDER = "{infrastructureStackId}";
+const DATABASE_NAME_PLACEHOLDER = "{databaseName}";
+
+type ParameterDefinition = {
+  readonly path: string;
+  readonly type: InfrastructureParameterType;
+  readonly optional: boolean;
+  // the id of the parameter construct in the infrastructure stack - for
+  // per database parameters this is appended to the CDK safe database name
+  // (these *must* not change otherwise CloudFormation will fail replacing parameters)
+  readonly constructId: string;
+  readonly description: string;
+};
+
+/**
+ * The definitive list of every value the infrastructure stack exports
+ * through SSM parameter store. Both the stack (writing) and client (reading)
+ * are driven by this manifest.
+ */
+export const PARAMETER_MANIFEST = {
+  vpcId: {
+    path: "/{infrastructureStackId}/VPC/vpcId",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "VpcIdParameter",
+    description: "The id of the VPC",
+  },
+  vpcAvailabilityZones: {
+    path: "/{infrastructureStackId}/VPC/availabilityZones",
+    type: InfrastructureParameterType.STRING_LIST,
+    optional: false,
+    constructId: "AvailabilityZonesParameter",
+    description: "The availability zones of the VPC",
+  },
+  vpcPublicSubnetIds: {
+    path: "/{infrastructureStackId}/VPC/publicSubnetIds",
+    type: InfrastructureParameterType.STRING_LIST,
+    optional: false,
+    constructId: "PublicSubnetIdsParameter",
+    description: "The ids of the public subnets of the VPC",
+  },
+  vpcPublicSubnetRouteTableIds: {
+    path: "/{infrastructureStackId}/VPC/publicSubnetRouteTableIds",
+    type: InfrastructureParameterType.STRING_LIST,
+    optional: false,
+    constructId: "PublicSubnetRouteTableIdsParameter",
+    description: "The route table ids of the public subnets of the VPC",
+  },
+  vpcPrivateSubnetIds: {
+    path: "/{infrastructureStackId}/VPC/privateSubnetIds",
+    type: InfrastructureParameterType.STRING_LIST,
+    optional: false,
+    constructId: "PrivateSubnetIdsParameter",
+    description:
+      'The ids of the private subnets of the VPC (or "empty" if there are none)',
+  },
+  vpcPrivateSubnetRouteTableIds: {
+    path: "/{infrastructureStackId}/VPC/privateSubnetRouteTableIds",
+    type: InfrastructureParameterType.STRING_LIST,
+    optional: false,
+    constructId: "PrivateSubnetRouteTableIdsParameter",
+    description:
+      'The route table ids of the private subnets of the VPC (or "empty" if there are none)',
+  },
+  vpcIsolatedSubnetIds: {
+    path: "/{infrastructureStackId}/VPC/isolatedSubnetIds",
+    type: InfrastructureParameterType.STRING_LIST,
+    optional: false,
+    constructId: "IsolatedSubnetIdsParameter",
+    description:
+      'The ids of the isolated subnets of the VPC (or "empty" if there are none)',
+  },
+  vpcIsolatedSubnetRouteTableIds: {
+    path: "/{infrastructureStackId}/VPC/isolatedSubnetRouteTableIds",
+    type: InfrastructureParameterType.STRING_LIST,
+    optional: false,
+    constructId: "IsolatedSubnetRouteTableIdsParameter",
+    description:
+      'The route table ids of the isolated subnets of the VPC (or "empty" if there are none)',
+  },
+  vpcSecurityGroupId: {
+    path: "/{infrastructureStackId}/VPC/securityGroupId",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "SecurityGroupIdParameter",
+    description: "The id of a security group for general resources in the VPC",
+  },
+  vpcInternalSecurityGroupId: {
+    path: "/{infrastructureStackId}/VPC/internalSecurityGroupId",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "InternalSecurityGroupIdParameter",
+    description:
+      "The id of a security group that only allows traffic between its members",
+  },
+  secretsManagerSecretsPrefix: {
+    path: "/{infrastructureStackId}/SecretsManager/secretsPrefix",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "SecretsPrefixParameter",
+    description: "The prefix of the name of all secrets of this infrastructure",
+  },
+  tempPrivateBucketArn: {
+    path: "/{infrastructureStackId}/TempPrivateBucket/bucketArn",
+    type: InfrastructureParameterType.ARN,
+    optional: false,
+    constructId: "TempPrivateBucketArnParameter",
+    description: "The ARN of the bucket for temporary objects",
+  },
+  tempPrivateBucketName: {
+    path: "/{infrastructureStackId}/TempPrivateBucket/bucketName",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "TempPrivateBucketNameParameter",
+    description: "The name of the bucket for temporary objects",
+  },
+  namespaceName: {
+    path: "/{infrastructureStackId}/HttpNamespace/namespaceName",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "NamespaceNameParameter",
+    description: "The name of the CloudMap namespace",
+  },
+  namespaceId: {
+    path: "/{infrastructureStackId}/HttpNamespace/namespaceId",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "NamespaceIdParameter",
+    description: "The id of the CloudMap namespace",
+  },
+  namespaceArn: {
+    path: "/{infrastructureStackId}/HttpNamespace/namespaceArn",
+    type: InfrastructureParameterType.ARN,
+    optional: true,
+    constructId: "NamespaceArnParameter",
+    description: "The ARN of the CloudMap namespace",
+  },
+  hostedZoneName: {
+    path: "/{infrastructureStackId}/HostedZone/zoneName",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "ZoneNameParameter",
+    description: "The name of the Route 53 hosted zone",
+  },
+  hostedZoneId: {
+    path: "/{infrastructureStackId}/HostedZone/hostedZoneId",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "HostedZoneIdParameter",
+    description: "The id of the Route 53 hosted zone",
+  },
+  certificateArn: {
+    path: "/{infrastructureStackId}/Certificate/certificateArn",
+    type: InfrastructureParameterType.ARN,
+    optional: true,
+    constructId: "CertificateArnParameter",
+    description: "The ARN of the wildcard SSL certificate of the hosted zone",
+  },
+  backupVaultArn: {
+    path: "/{infrastructureStackId}/Backup/vaultArn",
+    type: InfrastructureParameterType.ARN,
+    optional: true,
+    constructId: "BackupVaultArnParameter",
+    description:
+      "The ARN of the AWS Backup vault holding backups of the databases",
+  },
+  bastionInstanceId: {
+    path: "/{infrastructureStackId}/Bastion/instanceId",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "BastionInstanceIdParameter",
+    description:
+      "The id of the bastion instance that can port forward (via SSM Session Manager) to the databases",
+  },
+  databaseDsnWithPassword: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/dsnWithPassword",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "DatabaseDsnWithPasswordParameter",
+    description: "The DSN of the Postgres database including the password",
+  },
+  databaseDsnNoPassword: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/dsnNoPassword",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "DatabaseDsnNoPasswordParameter",
+    description: "The DSN of the Postgres database without the password",
+  },
+  databaseHostname: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/hostname",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "DatabaseHostnameParameter",
+    description: "The hostname of the Postgres database",
+  },
+  databaseReaderHostname: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/readerHostname",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseReaderHostnameParameter",
+    description:
+      "The hostname of the reader endpoint of the Postgres database (if it has readers)",
+  },
+  databasePort: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/port",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "DatabasePortParameter",
+    description: "The port of the Postgres database",
+  },
+  databaseAdminUser: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/adminUser",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "DatabaseAdminUserParameter",
+    description: "The admin user of the Postgres database",
+  },
+  databaseAdminPasswordSecretArn: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/adminPasswordSecretArn",
+    type: InfrastructureParameterType.ARN,
+    optional: false,
+    constructId: "DatabaseAdminPasswordSecretArnParameter",
+    description:
+      "The ARN of the secret holding the admin username and password of the Postgres database",
+  },
+  databaseSecurityGroupId: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/securityGroupId",
+    type: InfrastructureParameterType.STRING,
+    optional: false,
+    constructId: "DatabaseSecurityGroupIdParameter",
+    description:
+      "The id of the security group giving access to the Postgres database",
+  },
+  databaseResourceId: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/resourceId",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseResourceIdParameter",
+    description:
+      "The resource id of the Postgres database - as used for IAM database authentication",
+  },
+  databaseRoleSecretArns: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/roleSecretArns",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseRoleSecretArnsParameter",
+    description:
+      "A JSON object mapping the name of each bootstrapped Postgres role to the ARN of the secret holding its username and password",
+  },
+  databaseProxyHostname: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/Proxy/hostname",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseProxyHostnameParameter",
+    description:
+      "The hostname of the RDS proxy in front of the Postgres database",
+  },
+  databaseProxyDsnNoPassword: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/Proxy/dsnNoPassword",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseProxyDsnNoPasswordParameter",
+    description:
+      "The DSN of the RDS proxy in front of the Postgres database (connections use IAM auth)",
+  },
+  databaseProxyName: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/Proxy/name",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseProxyNameParameter",
+    description: "The name of the RDS proxy in front of the Postgres database",
+  },
+  databaseProxyArn: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/Proxy/arn",
+    type: InfrastructureParameterType.ARN,
+    optional: true,
+    constructId: "DatabaseProxyArnParameter",
+    description: "The ARN of the RDS proxy in front of the Postgres database",
+  },
+  databaseProxySecurityGroupId: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/Proxy/securityGroupId",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseProxySecurityGroupIdParameter",
+    description:
+      "The id of the security group giving access to the RDS proxy in front of the Postgres database",
+  },
+  databaseEdgeDbDsnNoPasswordOrDatabase: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/EdgeDb/dsnNoPasswordOrDatabase",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseEdgeDbDsnNoPasswordOrDatabaseParameter",
+    description: "The DSN of the EdgeDb without the password or database",
+  },
+  databaseEdgeDbAdminPasswordSecretArn: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/EdgeDb/adminPasswordSecretArn",
+    type: InfrastructureParameterType.ARN,
+    optional: true,
+    constructId: "DatabaseEdgeDbAdminPasswordSecretArnParameter",
+    description: "The ARN of the secret holding the EdgeDb superuser password",
+  },
+  databaseEdgeDbSecurityGroupId: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/EdgeDb/securityGroupId",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseEdgeDbSecurityGroupIdParameter",
+    description: "The id of the security group giving access to the EdgeDb",
+  },
+  databaseEdgeDbRoleSecretArns: {
+    path: "/{infrastructureStackId}/Database/{databaseName}/EdgeDb/roleSecretArns",
+    type: InfrastructureParameterType.STRING,
+    optional: true,
+    constructId: "DatabaseEdgeDbRoleSecretArnsParameter",
+    description:
+      "A JSON object mapping the name of each bootstrapped EdgeDb role to the ARN of the secret holding its password",
+  },
+} as const satisfies { [name: string]: ParameterDefinition };
+
+export type ParameterKey = keyof typeof PARAMETER_MANIFEST;
+
+type ParameterKeyOfType<T extends InfrastructureParameterType> = {
+  [K in ParameterKey]: (typeof PARAMETER_MANIFEST)[K]["type"] extends T
+    ? K
+    : never;
+}[ParameterKey];
+
+export type StringParameterKey =
+  ParameterKeyOfType<InfrastructureParameterType.STRING>;
+
+export type StringListParameterKey =
+  ParameterKeyOfType<InfrastructureParameterType.STRING_LIST>;
+
+export type ArnParameterKey =
+  ParameterKeyOfType<InfrastructureParameterType.ARN>;
+
+/**
+ * Returns true if the given parameter exists once per database.
+ *
+ * @param key
+ */
+export function isDatabaseParameter(key: ParameterKey): boolean {
+  return PARAMETER_MANIFEST[key].path.includes(DATABASE_NAME_PLACEHOLDER);
+}
+
+/**
+ * Return the SSM parameter path of the given parameter.
+ *
+ * @param key the parameter in the manifest
+ * @param infrastructureStackId the id of the infrastructure stack
+ * @param databaseName the database name - which must be given for per database parameters
+ */
+export function parameterPath(
+  key: ParameterKey,
+  infrastructureStackId: string,
+  databaseName?: string,
+): string {
+  if (isDatabaseParameter(key) && !databaseName)
+    throw new Error(
+      `The parameter ${key} exists per database and so needs a database name`,
+    );
+
+  return PARAMETER_MANIFEST[key].path
+    .replace(STACK_ID_PLACEHOLDER, infrastructureStackId)
+    .replace(DATABASE_NAME_PLACEHOLDER, databaseName ?? "");
+}
+
+/**
+ * The manifest of every value exported by an infrastructure stack - allowing
+ * tooling (CDK or otherwise) to discover the SSM parameters that hold them.
+ */
+export class InfrastructureParameterManifest {
+  /**
+   * Return every parameter of the manifest.
+   *
+   * @param infrastructureStackId if present, the id of the infrastructure stack to fill into the paths
+   * @param databaseNames if present, the names of the databases to create per database parameters for
+   */
+  public static parameters(
+    infrastructureStackId?: string,
+    databaseNames?: string[],
+  ): InfrastructureParameter[] {
+    const result: InfrastructureParameter[] = [];
+
+    const addParameter = (key: ParameterKey, databaseName?: string) => {
+      const definition: ParameterDefinition = PARAMETER_MANIFEST[key];
+
+      let path = definition.path;
+
+      if (infrastructureStackId)
+        path = path.replace(STACK_ID_PLACEHOLDER, infrastructureStackId);
+
+      if (databaseName)
+        path = path.replace(DATABASE_NAME_PLACEHOLDER, databaseName);
+
+      result.push({
+        name: key,
+        path: path,
+        parameterType: definition.type,
+        optional: definition.optional,
+        databaseName: databaseName,
+        description: definition.description,
+      });
+    };
+
+    for (const key of Object.keys(PARAMETER_MANIFEST) as ParameterKey[]) {
+      if (isDatabaseParameter(key) && databaseNames)
+        for (const databaseName of databaseNames)
+          addParameter(key, databaseName);
+      else addParameter(key);
+    }
+
+    return result;
+  }
+
+  /**
+   * Return every parameter of the manifest as a JSON string.
+   *
+   * @param infrastructureStackId if present, the id of the infrastructure stack to fill into the paths
+   * @param databaseNames if present, the names of the databases to create per database parameters for
+   */
+  public static toJson(
+    infrastructureStackId?: string,
+    databaseNames?: string[],
+  ): string {
+    return JSON.stringify(
+      InfrastructureParameterManifest.parameters(
+        infrastructureStackId,
+        databaseNames,
+      ),
+      null,
+      2,
+    );
+  }
+}
@@ -1,96 +1,277 @@
+import { parameterPath } from "./parameter-manifest";
+
+// the paths of all parameters are defined in the parameter manifest - these
+// are convenience functions for code that wants a parameter path directly
+
 export function vpcIdParameterName(infrastructureStackId: string) {
-  return `/${infrastructureStackId}/VPC/vpcId`;
+  return parameterPath("vpcId", infrastructureStackId);
 }
 
 export function vpcAvailabilityZonesParameterName(
   infrastructureStackId: string,
 ) {
-  return `/${infrastructureStackId}/VPC/availabilityZones`;
+  return parameterPath("vpcAvailabilityZones", infrastructureStackId);
 }
 
 export function vpcPublicSubnetIdsParameterName(infrastructureStackId: string) {
-  return `/${infrastructureStackId}/VPC/publicSubnetIds`;
+  return parameterPath("vpcPublicSubnetIds", infrastructureStackId);
 }
 
 export function vpcPublicSubnetRouteTableIdsParameterName(
   infrastructureStackId: string,
 ) {
-  return `/${infrastructureStackId}/VPC/publicSubnetRouteTableIds`;
+  return parameterPath("vpcPublicSubnetRouteTableIds", infrastructureStackId);
 }
 
 export function vpcPrivateSubnetIdsParameterName(
   infrastructureStackId: string,
 ) {
-  return `/${infrastructureStackId}/VPC/privateSubnetIds`;
+  return parameterPath("vpcPrivateSubnetIds", infrastructureStackId);
 }
 
 export function vpcPrivateSubnetRouteTableIdsParameterName(
   infrastructureStackId: string,
 ) {
-  return `/${infrastructureStackId}/VPC/privateSubnetRouteTableIds`;
+  return parameterPath("vpcPrivateSubnetRouteTableIds", infrastructureStackId);
 }
 
 export function vpcIsolatedSubnetIdsParameterName(
   infrastructureStackId: string,
 ) {
-  return `/${infrastructureStackId}/VPC/isolatedSubnetIds`;
+  return parameterPath("vpcIsolatedSubnetIds", infrastructureStackId);
 }
 
 export function vpcIsolatedSubnetRouteTableIdsParameterName(
   infrastructureStackId: string,
 ) {
-  return `/${infrastructureStackId}/VPC/isolatedSubnetRouteTableIds`;
+  return parameterPath("vpcIsolatedSubnetRouteTableIds", infrastructureStackId);
 }
 
 export function vpcSecurityGroupIdParameterName(infrastructureStackId: string) {
-  return `/${infrastructureStackId}/VPC/securityGroupId`;
+  return parameterPath("vpcSecurityGroupId", infrastructureStackId);
 }
 
 export function vpcInternalSecurityGroupIdParameterName(
   infrastructureStackId: string,
 ) {
-  return `/${infrastructureStackId}/VPC/internalSecurityGroupId`;
+  return parameterPath("vpcInternalSecurityGroupId", infrastructureStackId);
 }
 
 export function secretsManagerSecretsPrefixParameterName(
   infrastructureStackId: string,
 ) {
-  return `/${infrastructureStackId}/SecretsManager/secretsPrefix`;
+  return parameterPath("secretsManagerSecretsPrefix", infrastructureStackId);
+}
+
+export function tempPrivateBucketArnParameterName(
+  infrastructureStackId: string,
+) {
+  return parameterPath("tempPrivateBucketArn", infrastructureStackId);
+}
+
+export function tempPrivateBucketNameParameterName(
+  infrastructureStackId: string,
+) {
+  return parameterPath("tempPrivateBucketName", infrastructureStackId);
 }
 
 export function namespaceNameParameterName(infrastructureStackId: string) {
-  return `/${infrastructureStackId}/HttpNamespace/namespaceName`;
+  return parameterPath("namespaceName", infrastructureStackId);
 }
 
 export function namespaceIdParameterName(infrastructureStackId: string) {
-  return `/${infrastructureStackId}/HttpNamespace/namespaceId`;
+  return parameterPath("namespaceId", infrastructureStackId);
 }
 
 export function namespaceArnParameterName(infrastructureStackId: string) {
-  return `/${infrastructureStackId}/HttpNamespace/namespaceArn`;
+  return parameterPath("namespaceArn", infrastructureStackId);
+}
+
+export function hostedZoneNameParameterName(infrastructureStackId: string) {
+  return parameterPath("hostedZoneName", infrastructureStackId);
+}
+
+export function hostedZoneIdParameterName(infrastructureStackId: string) {
+  return parameterPath("hostedZoneId", infrastructureStackId);
 }
 
 export function certificateArnParameterName(infrastructureStackId: string) {
-  return `/${infrastructureStackId}/Certificate/certificateArn`;
+  return parameterPath("certificateArn", infrastructureStackId);
+}
+
+export function backupVaultArnParameterName(infrastructureStackId: string) {
+  return parameterPath("backupVaultArn", infrastructureStackId);
+}
+
+export function bastionInstanceIdParameterName(infrastructureStackId: string) {
+  return parameterPath("bastionInstanceId", infrastructureStackId);
+}
+
+export function databaseDsnWithPasswordParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath(
+    "databaseDsnWithPassword",
+    infrastructureStackId,
+    dbName,
+  );
+}
+
+export function databaseDsnNoPasswordParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databaseDsnNoPassword", infrastructureStackId, dbName);
+}
+
+export function databaseHostnameParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databaseHostname", infrastructureStackId, dbName);
+}
+
+export function databaseReaderHostnameParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databaseReaderHostname", infrastructureStackId, dbName);
+}
+
+export function databasePortParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databasePort", infrastructureStackId, dbName);
+}
+
+export function databaseAdminUserParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databaseAdminUser", infrastructureStackId, dbName);
+}
+
+export function databaseAdminPasswordSecretArnParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath(
+    "databaseAdminPasswordSecretArn",
+    infrastructureStackId,
+    dbName,
+  );
+}
+
+export function databaseSecurityGroupIdParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath(
+    "databaseSecurityGroupId",
+    infrastructureStackId,
+    dbName,
+  );
+}
+
+export function databaseResourceIdParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databaseResourceId", infrastructureStackId, dbName);
+}
+
+export function databaseRoleSecretArnsParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databaseRoleSecretArns", infrastructureStackId, dbName);
+}
+
+export function databaseProxyHostnameParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databaseProxyHostname", infrastructureStackId, dbName);
+}
+
+export function databaseProxyDsnNoPasswordParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath(
+    "databaseProxyDsnNoPassword",
+    infrastructureStackId,
+    dbName,
+  );
+}
+
+export function databaseProxyNameParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databaseProxyName", infrastructureStackId, dbName);
+}
+
+export function databaseProxyArnParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath("databaseProxyArn", infrastructureStackId, dbName);
+}
+
+export function databaseProxySecurityGroupIdParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath(
+    "databaseProxySecurityGroupId",
+    infrastructureStackId,
+    dbName,
+  );
 }
 
 export function databaseEdgeDbDsnNoPasswordOrDatabaseParameterName(
   infrastructureStackId: string,
   dbName: string,
 ) {
-  return `/${infrastructureStackId}/Database/${dbName}/EdgeDb/dsnNoPasswordOrDatabase`;
+  return parameterPath(
+    "databaseEdgeDbDsnNoPasswordOrDatabase",
+    infrastructureStackId,
+    dbName,
+  );
 }
 
 export function databaseEdgeDbAdminPasswordSecretArnParameterName(
   infrastructureStackId: string,
   dbName: string,
 ) {
-  return `/${infrastructureStackId}/Database/${dbName}/EdgeDb/adminPasswordSecretArn`;
+  return parameterPath(
+    "databaseEdgeDbAdminPasswordSecretArn",
+    infrastructureStackId,
+    dbName,
+  );
 }
 
 export function databaseEdgeDbSecurityGroupIdParameterName(
   infrastructureStackId: string,
   dbName: string,
 ) {
-  return `/${infrastructureStackId}/Database/${dbName}/EdgeDb/securityGroupId`;
+  return parameterPath(
+    "databaseEdgeDbSecurityGroupId",
+    infrastructureStackId,
+    dbName,
+  );
+}
+
+export function databaseEdgeDbRoleSecretArnsParameterName(
+  infrastructureStackId: string,
+  dbName: string,
+) {
+  return parameterPath(
+    "databaseEdgeDbRoleSecretArns",
+    infrastructureStackId,
+    dbName,
+  );
 }
@@ -1,7 +1,17 @@
 import { Construct } from "constructs";
 import { ISecurityGroup, IVpc, SecurityGroup } from "aws-cdk-lib/aws-ec2";
-import { aws_ec2 as ec2 } from "aws-cdk-lib";
+import { aws_ec2 as ec2, Duration, RemovalPolicy } from "aws-cdk-lib";
+import { RetentionDays } from "aws-cdk-lib/aws-logs";
 import { ManagedPolicy, Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
+import {
+  DatabaseProxy,
+  IEngine,
+  IParameterGroup,
+  ParameterGroup,
+  ProxyTarget,
+} from "aws-cdk-lib/aws-rds";
+import { HostedRotation, ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { Metric } from "aws-cdk-lib/aws-cloudwatch";
 
 /**
  * An abstract concept that helps us wrap the CDK concepts of
@@ -10,10 +20,58 @@ import { ManagedPolicy, Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
  * different enough types in CDK that it is annoying.
  */
 export abstract class BaseDatabase extends Construct {
+  // RDS proxies for Postgres always listen on the default Postgres port
+  private static readonly PROXY_PORT = 5432;
+
+  private _proxy?: DatabaseProxy;
+  private _proxySecurityGroup?: ISecurityGroup;
+  private _proxyDsnNoPassword?: string;
+  private readonly _egressSecurityGroups: ISecurityGroup[] = [];
+
   protected constructor(scope: Construct, id: string) {
     super(scope, id);
   }
 
+  /**
+   * Destroy on remove tells us we don't really care much about the data (demo instances etc) - otherwise
+   * we always want a final snapshot.
+   *
+   * @param destroyOnRemove
+   * @protected
+   */
+  protected removalPolicy(destroyOnRemove?: boolean): RemovalPolicy {
+    return destroyOnRemove ? RemovalPolicy.DESTROY : RemovalPolicy.SNAPSHOT;
+  }
+
+  /**
+   * The period automated backups are kept for. Development databases only keep the minimum
+   * that RDS allows (where a minimum of zero means no backups at all).
+   *
+   * @param isDevelopment
+   * @param destroyOnRemove
+   * @param minimumDays the smallest retention the type of database allows
+   * @protected
+   */
+  protected backupRetention(
+    isDevelopment: boolean,
+    destroyOnRemove: boolean | undefined,
+    minimumDays: number,
+  ): Duration {
+    if (destroyOnRemove) return Duration.days(minimumDays);
+
+    return Duration.days(isDevelopment ? Math.max(minimumDays, 1) : 7);
+  }
+
+  /**
+   * The retention of any postgres logs that are exported to CloudWatch.
+   *
+   * @param isDevelopment
+   * @protected
+   */
+  protected cloudwatchLogsRetention(isDevelopment: boolean): RetentionDays {
+    return isDevelopment ? RetentionDays.ONE_WEEK : RetentionDays.ONE_YEAR;
+  }
+
   protected createMonitoringRole() {
     const monitoringRole = new Role(this, "DatabaseMonitoringRole", {
       assumedBy: new ServicePrincipal("monitoring.rds.amazonaws.com"),
@@ -26,15 +84,137 @@ export abstract class BaseDatabase extends Construct {
     return monitoringRole;
   }
 
-  protected createMembershipSecurityGroup(vpc: IVpc) {
-    return new SecurityGroup(this, "MembershipSecurityGroup", {
+  /**
+   * If there are any custom Postgres parameters, create a parameter group
+   * holding them - otherwise the database will use the default parameter group
+   * of the engine.
+   *
+   * @param engine
+   * @param parameters
+   * @protected
+   */
+  protected createParameterGroup(
+    engine: IEngine,
+    parameters?: { [name: string]: string },
+  ): IParameterGroup | undefined {
+    if (!parameters || Object.keys(parameters).length === 0) return undefined;
+
+    return new ParameterGroup(this, "ParameterGroup", {
+      engine: engine,
+      description: "Custom Postgres parameters",
+      parameters: parameters,
+    });
+  }
+
+  /**
+   * Rotate the admin password of the database using the hosted single user
+   * rotation of Secrets Manager.
+   *
+   * @param attachedSecret the admin secret as attached to the database (so that it holds the host etc)
+   * @param vpc
+   * @param membershipSecurityGroup the security group allowing access to the database
+   * @param automaticallyAfter
+   * @protected
+   */
+  protected addAdminPasswordRotation(
+    attachedSecret: ISecret,
+    vpc: IVpc,
+    membershipSecurityGroup: ISecurityGroup,
+    automaticallyAfter: Duration,
+  ) {
+    const rotationEgressSecurityGroup = new SecurityGroup(
+      this,
+      "RotationEgressSecurityGroup",
+      {
+        vpc: vpc,
+        allowAllOutbound: true,
+        description:
+          "Security group that allows the admin password rotation to reach out over the network",
+      },
+    );
+
+    this._egressSecurityGroups.push(rotationEgressSecurityGroup);
+
+    attachedSecret.addRotationSchedule("AdminPasswordRotation", {
+      automaticallyAfter: automaticallyAfter,
+      hostedRotation: HostedRotation.postgreSqlSingleUser({
+        vpc: vpc,
+        vpcSubnets: {
+          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+        },
+        securityGroups: [
+          // allows the rotation to connect to the database
+          membershipSecurityGroup,
+          // allows the rotation to reach the Secrets Manager API
+          rotationEgressSecurityGroup,
+        ],
+        // the password is used in DSNs so we keep to the same characters as the original password
+        excludeCharacters: "!\"#$%&'()*+,-./:;<=>?@[\\]^_`{|}~ ",
+      }),
+    });
+  }
+
+  /**
+   * Put an RDS Proxy in front of the database - that clients connect to using
+   * IAM auth (the proxy itself connects to the database using the admin secret).
+   *
+   * @param proxyTarget the instance or cluster
+   * @param attachedSecret the admin secret as attached to the database
+   * @param vpc
+   * @param databaseSecurityGroup the membership security group of the database
+   * @param adminUser
+   * @param databaseName
+   * @protected
+   */
+  protected createProxy(
+    proxyTarget: ProxyTarget,
+    attachedSecret: ISecret,
+    vpc: IVpc,
+    databaseSecurityGroup: ISecurityGroup,
+    adminUser: string,
+    databaseName: string,
+  ) {
+    // the proxy has its own membership group for clients - whilst the proxy itself
+    // is also a member of the database membership group (so that it can reach the database)
+    this._proxySecurityGroup = this.createMembershipSecurityGroup(
+      vpc,
+      "ProxyMembershipSecurityGroup",
+      "Security group for resources that can communicate to the RDS proxy in front of the contained RDS instance",
+    );
+
+    this._proxy = new DatabaseProxy(this, "Proxy", {
+      proxyTarget: proxyTarget,
+      secrets: [attachedSecret],
+      vpc: vpc,
+      vpcSubnets: {
+        subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+      },
+      securityGroups: [this._proxySecurityGroup, databaseSecurityGroup],
+      iamAuth: true,
+      requireTLS: true,
+    });
+
+    this.applySecurityGroupRules(
+      this._proxySecurityGroup,
+      BaseDatabase.PROXY_PORT,
+      false,
+    );
+
+    this._proxyDsnNoPassword = `postgres://${adminUser}@${this._proxy.endpoint}:${BaseDatabase.PROXY_PORT}/${databaseName}`;
+  }
+
+  protected createMembershipSecurityGroup(
+    vpc: IVpc,
+    id: string = "MembershipSecurityGroup",
+    description: string = "Security group for resources that can communicate to the contained RDS instance",
+  ) {
+    return new SecurityGroup(this, id, {
       vpc: vpc,
       // databases don't use outbound traffic via a security group unless you are getting them to reach
       // out via a stored procedure or something
       allowAllOutbound: false,
       allowAllIpv6Outbound: false,
-      description:
-        "Security group for resources that can communicate to the contained RDS instance",
+      description: description,
     });
   }
 
@@ -68,13 +248,60 @@ export abstract class BaseDatabase extends Construct {
     securityGroup.addEgressRule(securityGroup, ec2.Port.allTraffic());
   }
 
+  /**
+   * The RDS proxy in front of the database - if one was asked for.
+   */
+  public get proxy(): DatabaseProxy | undefined {
+    return this._proxy;
+  }
+
+  public get proxySecurityGroup(): ISecurityGroup | undefined {
+    return this._proxySecurityGroup;
+  }
+
+  public get proxyDsnNoPassword(): string | undefined {
+    return this._proxyDsnNoPassword;
+  }
+
+  /**
+   * A CloudWatch metric (in the AWS/RDS namespace) of the instance or cluster.
+   *
+   * @param metricName i.e. "CPUUtilization"
+   */
+  public abstract metric(metricName: string): Metric;
+
   public abstract get dsnWithTokens(): string;
 
   public abstract get dsnNoPassword(): string;
 
   public abstract get hostname(): string;
 
+  /**
+   * The ARN of the RDS instance or cluster (i.e. for backups).
+   */
+  public abstract get arn(): string;
+
+  /**
+   * The hostname of the endpoint that load balances across the read only
+   * instances of the database - if there are any.
+   */
+  public abstract get readerHostname(): string | undefined;
+
+  /**
+   * The (DbiResourceId or DbClusterResourceId) resource id of the database - as
+   * used in the ARNs of IAM database authentication.
+   */
+  public abstract get resourceId(): string;
+
   public abstract get port(): number;
 
   public abstract get securityGroup(): ISecurityGroup;
+
+  /**
+   * The security groups of anything working on the database (i.e. the admin password
+   * rotation) that reaches out to AWS APIs.
+   */
+  public get egressSecurityGroups(): ISecurityGroup[] {
+    return this._egressSecurityGroups;
+  }
 }
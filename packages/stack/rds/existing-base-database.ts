@@ -0,0 +1,192 @@
+import { ISecurityGroup, SecurityGroup } from "aws-cdk-lib/aws-ec2";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { ArnFormat, Stack, Token, custom_resources as cr } from "aws-cdk-lib";
+import { PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { Construct } from "constructs";
+import { Metric } from "aws-cdk-lib/aws-cloudwatch";
+import { BaseDatabase } from "./base-database";
+import { PostgresCommon } from "../infrastructure-stack-database-props";
+
+type ExistingBaseDatabaseProps = PostgresCommon & {
+  databaseName: string;
+
+  // the secret (holding username and password) of the existing database admin
+  secret: ISecret;
+};
+
+// where in the RDS describe responses we find the values we need
+type DescribePaths = {
+  action: string;
+  iamAction: string;
+  identifierParameter: string;
+  metricDimension: string;
+  resource: string;
+  hostname: string;
+  port: string;
+  resourceId: string;
+  readerHostname?: string;
+};
+
+const INSTANCE_PATHS: DescribePaths = {
+  action: "describeDBInstances",
+  iamAction: "rds:DescribeDBInstances",
+  identifierParameter: "DBInstanceIdentifier",
+  metricDimension: "DBInstanceIdentifier",
+  resource: "db",
+  hostname: "DBInstances.0.Endpoint.Address",
+  port: "DBInstances.0.Endpoint.Port",
+  resourceId: "DBInstances.0.DbiResourceId",
+};
+
+const CLUSTER_PATHS: DescribePaths = {
+  action: "describeDBClusters",
+  iamAction: "rds:DescribeDBClusters",
+  identifierParameter: "DBClusterIdentifier",
+  metricDimension: "DBClusterIdentifier",
+  resource: "cluster",
+  hostname: "DBClusters.0.Endpoint",
+  port: "DBClusters.0.Port",
+  resourceId: "DBClusters.0.DbClusterResourceId",
+  readerHostname: "DBClusters.0.ReaderEndpoint",
+};
+
+/**
+ * A construct representing a base database that already exists (i.e. from a legacy
+ * deployment) - in this case imported by identifier. The endpoint of the database is
+ * described at deployment time - and the existing security group is used as is (so it
+ * must already allow access from its own members).
+ */
+export class ExistingBaseDatabase extends BaseDatabase {
+  private readonly _securityGroup: ISecurityGroup;
+  private readonly _hostname: string;
+  private readonly _port: string;
+  private readonly _resourceId: string;
+  private readonly _arn: string;
+  private readonly _metricDimensions: { [dimension: string]: string };
+  private readonly _readerHostname?: string;
+  private readonly _dsnWithTokens: string;
+  private readonly _dsnNoPassword: string;
+
+  constructor(scope: Construct, id: string, props: ExistingBaseDatabaseProps) {
+    super(scope, id);
+
+    if (!props.existing)
+      throw new Error(
+        `The database ${props.databaseName} is not an existing database`,
+      );
+
+    const paths =
+      props.postgresType === "postgres-instance"
+        ? INSTANCE_PATHS
+        : CLUSTER_PATHS;
+
+    this._securityGroup = SecurityGroup.fromSecurityGroupId(
+      this,
+      "MembershipSecurityGroup",
+      props.existing.securityGroupId,
+      {
+        // the security group is not ours to change
+        mutable: false,
+      },
+    );
+
+    const describe: cr.AwsSdkCall = {
+      service: "RDS",
+      action: paths.action,
+      parameters: {
+        [paths.identifierParameter]: props.existing.identifier,
+      },
+      physicalResourceId: cr.PhysicalResourceId.of(props.existing.identifier),
+      // the full describe response can be bigger than a custom resource is allowed to return
+      outputPaths: [
+        paths.hostname,
+        paths.port,
+        paths.resourceId,
+        ...(paths.readerHostname ? [paths.readerHostname] : []),
+      ],
+    };
+
+    this._metricDimensions = {
+      [paths.metricDimension]: props.existing.identifier,
+    };
+
+    this._arn = Stack.of(this).formatArn({
+      service: "rds",
+      resource: paths.resource,
+      resourceName: props.existing.identifier,
+      arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+    });
+
+    const describeResource = new cr.AwsCustomResource(this, "Describe", {
+      onCreate: describe,
+      onUpdate: describe,
+      installLatestAwsSdk: false,
+      policy: cr.AwsCustomResourcePolicy.fromStatements([
+        new PolicyStatement({
+          actions: [paths.iamAction],
+          resources: [this._arn],
+        }),
+      ]),
+    });
+
+    this._hostname = describeResource.getResponseField(paths.hostname);
+    this._port = describeResource.getResponseField(paths.port);
+    this._resourceId = describeResource.getResponseField(paths.resourceId);
+
+    if (paths.readerHostname)
+      this._readerHostname = describeResource.getResponseField(
+        paths.readerHostname,
+      );
+
+    this._dsnWithTokens =
+      `postgres://` +
+      `${props.secret.secretValueFromJson("username").unsafeUnwrap()}` +
+      `:` +
+      `${props.secret.secretValueFromJson("password").unsafeUnwrap()}` +
+      `@${this._hostname}:${this._port}/${props.databaseName}`;
+
+    this._dsnNoPassword =
+      `postgres://` +
+      `${props.adminUser}@${this._hostname}:${this._port}/${props.databaseName}`;
+  }
+
+  public metric(metricName: string): Metric {
+    return new Metric({
+      namespace: "AWS/RDS",
+      metricName: metricName,
+      dimensionsMap: this._metricDimensions,
+    });
+  }
+
+  public get dsnWithTokens(): string {
+    return this._dsnWithTokens;
+  }
+
+  public get dsnNoPassword(): string {
+    return this._dsnNoPassword;
+  }
+
+  public get readerHostname(): string | undefined {
+    return this._readerHostname;
+  }
+
+  public get arn(): string {
+    return this._arn;
+  }
+
+  public get resourceId(): string {
+    return this._resourceId;
+  }
+
+  public get hostname(): string {
+    return this._hostname;
+  }
+
+  public get port(): number {
+    return Token.asNumber(this._port);
+  }
+
+  public get securityGroup(): ISecurityGroup {
+    return this._securityGroup;
+  }
+}
@@ -7,22 +7,29 @@ import {
   SecurityGroup,
 } from "aws-cdk-lib/aws-ec2";
 import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { aws_ec2 as ec2, aws_rds as rds } from "aws-cdk-lib";
 import {
-  aws_ec2 as ec2,
-  aws_rds as rds,
-  Duration,
-  RemovalPolicy,
-} from "aws-cdk-lib";
-import { DatabaseInstance, PostgresEngineVersion } from "aws-cdk-lib/aws-rds";
+  DatabaseInstance,
+  DatabaseInstanceFromSnapshot,
+} from "aws-cdk-lib/aws-rds";
 import { Construct } from "constructs";
+import { Metric } from "aws-cdk-lib/aws-cloudwatch";
 import { BaseDatabase } from "./base-database";
 import { PostgresCommon } from "../infrastructure-stack-database-props";
+import {
+  DEFAULT_INSTANCE_ENGINE_VERSION,
+  instanceEngineVersion,
+} from "./postgres-engine-version";
 
 type InstanceBaseDatabaseProps = PostgresCommon & {
   databaseName: string;
 
   vpc: IVpc;
 
+  // whether the infrastructure is for development - which changes the defaults
+  // for backups, deletion protection etc
+  isDevelopment: boolean;
+
   // the secret of the database admin password to use
   secret: ISecret;
 };
@@ -32,7 +39,7 @@ type InstanceBaseDatabaseProps = PostgresCommon & {
  * case representing a simple Postgres instance.
  */
 export class InstanceBaseDatabase extends BaseDatabase {
-  private readonly _instance: DatabaseInstance;
+  private readonly _instance: DatabaseInstance | DatabaseInstanceFromSnapshot;
   private readonly _securityGroup: SecurityGroup;
   private readonly _dsnWithTokens: string;
   private readonly _dsnNoPassword: string;
@@ -45,12 +52,14 @@ export class InstanceBaseDatabase extends BaseDatabase {
     this._securityGroup = this.createMembershipSecurityGroup(props.vpc);
 
     const engine = rds.DatabaseInstanceEngine.postgres({
-      version: PostgresEngineVersion.VER_14,
+      version: instanceEngineVersion(
+        props.engineVersion ?? DEFAULT_INSTANCE_ENGINE_VERSION,
+      ),
     });
 
-    this._instance = new DatabaseInstance(scope, "DatabaseInstance", {
-      databaseName: props.databaseName,
+    const instanceProps: rds.DatabaseInstanceSourceProps = {
       engine: engine,
+      parameterGroup: this.createParameterGroup(engine, props.parameters),
       vpc: props.vpc,
       securityGroups: [this._securityGroup],
       vpcSubnets: {
@@ -58,23 +67,64 @@ export class InstanceBaseDatabase extends BaseDatabase {
           ? ec2.SubnetType.PUBLIC
           : ec2.SubnetType.PRIVATE_WITH_EGRESS,
       },
-      credentials: rds.Credentials.fromSecret(props.secret),
       // our props "destroy on remove" tells us we don't really care much about the data (demo instances etc)
       // so we set a bunch of settings accordingly
-      removalPolicy: props.destroyOnRemove
-        ? RemovalPolicy.DESTROY
-        : RemovalPolicy.SNAPSHOT,
-      backupRetention: props.destroyOnRemove ? Duration.days(0) : undefined,
+      removalPolicy: this.removalPolicy(props.destroyOnRemove),
+      backupRetention: this.backupRetention(
+        props.isDevelopment,
+        props.destroyOnRemove,
+        0,
+      ),
       deleteAutomatedBackups: props.destroyOnRemove,
-      // always enable base AWS encryption at rest
-      storageEncrypted: true,
+      deletionProtection: !props.isDevelopment,
       instanceType:
         props.instanceType ??
         InstanceType.of(InstanceClass.BURSTABLE4_GRAVITON, InstanceSize.SMALL),
       allocatedStorage: props.overrideAllocatedStorage ?? 20,
       maxAllocatedStorage: 100,
-      ...(props.enableMonitoring && { ...props.enableMonitoring }),
-    });
+      iamAuthentication: props.enableIamAuthentication,
+      multiAz: props.multiAz,
+      ...(props.enableMonitoring && {
+        ...props.enableMonitoring,
+        cloudwatchLogsRetention: this.cloudwatchLogsRetention(
+          props.isDevelopment,
+        ),
+      }),
+    };
+
+    // when restoring from a snapshot, the database (and its encryption) comes from
+    // the snapshot - but the admin password is still set to that of our secret
+    this._instance = props.snapshotIdentifier
+      ? new DatabaseInstanceFromSnapshot(scope, "DatabaseInstance", {
+          ...instanceProps,
+          snapshotIdentifier: props.snapshotIdentifier,
+          credentials: rds.SnapshotCredentials.fromSecret(props.secret),
+        })
+      : new DatabaseInstance(scope, "DatabaseInstance", {
+          ...instanceProps,
+          databaseName: props.databaseName,
+          credentials: rds.Credentials.fromSecret(props.secret),
+          // always enable base AWS encryption at rest
+          storageEncrypted: true,
+        });
+
+    if (props.rotateAdminPasswordAfter)
+      this.addAdminPasswordRotation(
+        this._instance.secret!,
+        props.vpc,
+        this._securityGroup,
+        props.rotateAdminPasswordAfter,
+      );
+
+    if (props.enableProxy)
+      this.createProxy(
+        rds.ProxyTarget.fromInstance(this._instance),
+        this._instance.secret!,
+        props.vpc,
+        this._securityGroup,
+        props.adminUser,
+        props.databaseName,
+      );
 
     this.applySecurityGroupRules(
       this._securityGroup,
@@ -94,6 +144,10 @@ export class InstanceBaseDatabase extends BaseDatabase {
       `${props.adminUser}@${this._instance.instanceEndpoint.hostname}:${this._instance.instanceEndpoint.port}/${props.databaseName}`;
   }
 
+  public metric(metricName: string): Metric {
+    return this._instance.metric(metricName);
+  }
+
   public get dsnWithTokens(): string {
     return this._dsnWithTokens;
   }
@@ -102,6 +156,19 @@ export class InstanceBaseDatabase extends BaseDatabase {
     return this._dsnNoPassword;
   }
 
+  public get readerHostname(): string | undefined {
+    // the standby of a multi-AZ instance cannot be read from
+    return undefined;
+  }
+
+  public get arn(): string {
+    return this._instance.instanceArn;
+  }
+
+  public get resourceId(): string {
+    return this._instance.instanceResourceId!;
+  }
+
   public get hostname(): string {
     return this._instance.instanceEndpoint.hostname;
   }
@@ -0,0 +1,294 @@
+import {
+  aws_ecs as ecs,
+  aws_iam as iam,
+  aws_logs as logs,
+  aws_secretsmanager as secretsmanager,
+  Stack,
+  Tokenization,
+} from "aws-cdk-lib";
+import { Construct } from "constructs";
+import {
+  CpuArchitecture,
+  FargateTaskDefinition,
+  ICluster,
+  LogDrivers,
+  OperatingSystemFamily,
+} from "aws-cdk-lib/aws-ecs";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { ISecurityGroup, IVpc } from "aws-cdk-lib/aws-ec2";
+import { cdkIdSafeName } from "../cdk-id-safe-name";
+import { PostgresBootstrap } from "../infrastructure-stack-database-props";
+import { RunTaskOnDeployConstruct } from "../ecs/run-task-on-deploy-construct";
+import { ecrRepositoryArn } from "../edge-db/edge-db-image";
+
+type Props = PostgresBootstrap & {
+  // the VPC that the bootstrap task will run in
+  vpc: IVpc;
+
+  // the cluster the bootstrap task runs in (shared by the bootstraps of all the databases)
+  cluster: ICluster;
+
+  // a prefix that is used for constructing AWS secrets for the roles
+  secretsPrefix: string;
+
+  // the name of the database that was created along with the Postgres
+  databaseName: string;
+
+  // purely for secret naming purposes - the CDK safe id derived from
+  // our database name
+  cdkIdSafeDbName: string;
+
+  // where to connect to the Postgres
+  hostname: string;
+  port: number;
+
+  // the secret of the database admin (with username and password fields)
+  adminSecret: ISecret;
+
+  // the membership security group allowing access to the Postgres
+  securityGroup: ISecurityGroup;
+
+  // how long the logs of the task are kept for
+  logRetention: logs.RetentionDays;
+};
+
+// names of databases and roles end up in SQL - so we are strict about what they can be
+const IDENTIFIER_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+// extensions have names like uuid-ossp
+const EXTENSION_REGEX = /^[a-z0-9_-]+$/;
+
+// https://hub.docker.com/_/postgres - we only use the psql client from the image
+const DEFAULT_IMAGE_URI = "postgres:16-alpine";
+
+/**
+ * A one-shot Fargate task (run on every deployment that changes it) that
+ * creates extra databases, extensions and application roles (with grants) in a Postgres.
+ * The task is idempotent - existing databases and extensions are left alone, existing roles
+ * have their password reset to that of their secret, and grants are re-applied.
+ */
+export class PostgresBootstrapConstruct extends Construct {
+  private readonly _roleSecrets: { [role: string]: ISecret } = {};
+  private readonly _egressSecurityGroup: ISecurityGroup;
+
+  constructor(scope: Construct, id: string, props: Props) {
+    super(scope, id);
+
+    const databases = props.databases ?? [];
+    const extensions = props.extensions ?? [];
+    const roles = props.roles ?? [];
+
+    for (const name of [...databases, ...roles.map((r) => r.name)])
+      if (!IDENTIFIER_REGEX.test(name))
+        throw new Error(
+          `The Postgres bootstrap name ${name} must be made up of only letters, digits and underscores`,
+        );
+
+    for (const extension of extensions)
+      if (!EXTENSION_REGEX.test(extension))
+        throw new Error(
+          `The Postgres extension ${extension} is not a valid extension name`,
+        );
+
+    // each role has its own secret (named from the role) - so roles cannot differ only in case
+    const roleIds = roles.map((role) => cdkIdSafeName(role.name));
+
+    for (const [i, roleId] of roleIds.entries())
+      if (roleIds.indexOf(roleId) !== i)
+        throw new Error(
+          `The Postgres bootstrap role ${
+            roles[i].name
+          } is too similar to role ${
+            roles[roleIds.indexOf(roleId)].name
+          } (names must differ by more than case or punctuation)`,
+        );
+
+    // the database created along with the Postgres always exists (and can be bootstrapped)
+    const allDatabases = [props.databaseName, ...databases];
+
+    for (const role of roles)
+      for (const database of role.databases ?? [props.databaseName])
+        if (!allDatabases.includes(database))
+          throw new Error(
+            `The Postgres role ${role.name} is granted access to database ${database} which is not created by the bootstrap`,
+          );
+
+    const executionRole = new iam.Role(this, "ExecutionRole", {
+      assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName(
+          "service-role/AmazonECSTaskExecutionRolePolicy",
+        ),
+      ],
+    });
+
+    const imageUri = props.imageUri ?? DEFAULT_IMAGE_URI;
+
+    // images from private ECR pull through caches need extra permissions on the first pull
+    // (when the cache creates the repository and imports the upstream image)
+    const repositoryArn = ecrRepositoryArn(Stack.of(this), imageUri);
+
+    if (repositoryArn)
+      executionRole.addToPolicy(
+        new iam.PolicyStatement({
+          actions: ["ecr:CreateRepository", "ecr:BatchImportUpstreamImage"],
+          resources: [repositoryArn],
+        }),
+      );
+
+    const taskDefinition = new FargateTaskDefinition(this, "TaskDefinition", {
+      runtimePlatform: {
+        operatingSystemFamily: OperatingSystemFamily.LINUX,
+        cpuArchitecture: props.cpuArchitecture ?? CpuArchitecture.ARM64,
+      },
+      memoryLimitMiB: 512,
+      cpu: 256,
+      executionRole: executionRole,
+      // each database (of each stack) has its own family - so the revisions of one bootstrap
+      // are never mixed in with those of another
+      family: `${Stack.of(this).stackName}-${
+        props.cdkIdSafeDbName
+      }-postgres-bootstrap`,
+    });
+
+    const secrets: { [k: string]: ecs.Secret } = {
+      PGUSER: ecs.Secret.fromSecretsManager(props.adminSecret, "username"),
+      PGPASSWORD: ecs.Secret.fromSecretsManager(props.adminSecret, "password"),
+    };
+
+    // role passwords are passed to psql as variables - so they are only
+    // ever quoted by Postgres itself (using format %L)
+    const psqlVariables: string[] = [];
+
+    const sql: string[] = [];
+
+    for (const database of databases)
+      sql.push(
+        `SELECT 'CREATE DATABASE "${database}"' WHERE NOT EXISTS (SELECT FROM pg_database WHERE datname = '${database}')\\gexec`,
+      );
+
+    for (const [i, role] of roles.entries()) {
+      const roleSecret = new secretsmanager.Secret(
+        this,
+        `${cdkIdSafeName(role.name)}Secret`,
+        {
+          description: `For database ${props.databaseName} - secret containing the username and password of Postgres role ${role.name}`,
+          secretName: `${props.secretsPrefix}${
+            props.cdkIdSafeDbName
+          }Rds${cdkIdSafeName(role.name)}`,
+          generateSecretString: {
+            excludePunctuation: true,
+            secretStringTemplate: JSON.stringify({
+              username: role.name,
+              password: "",
+            }),
+            generateStringKey: "password",
+          },
+        },
+      );
+
+      this._roleSecrets[role.name] = roleSecret;
+
+      // the environment and psql variables are by position - so that names differing
+      // only in case can never share a variable
+      const passwordEnv = `ROLE_${i}_PASSWORD`;
+      const passwordVariable = `role_${i}_password`;
+
+      secrets[passwordEnv] = ecs.Secret.fromSecretsManager(
+        roleSecret,
+        "password",
+      );
+      psqlVariables.push(`-v ${passwordVariable}="$${passwordEnv}"`);
+
+      sql.push(
+        `SELECT format('CREATE ROLE %I WITH LOGIN PASSWORD %L', '${role.name}', :'${passwordVariable}') WHERE NOT EXISTS (SELECT FROM pg_roles WHERE rolname = '${role.name}')\\gexec`,
+        `SELECT format('ALTER ROLE %I WITH LOGIN PASSWORD %L', '${role.name}', :'${passwordVariable}') WHERE EXISTS (SELECT FROM pg_roles WHERE rolname = '${role.name}')\\gexec`,
+        // revoking is also applied so that switching off rdsIam is followed (it is only a
+        // warning if the role was never granted)
+        role.rdsIam
+          ? `GRANT rds_iam TO "${role.name}";`
+          : `REVOKE rds_iam FROM "${role.name}";`,
+      );
+    }
+
+    for (const database of allDatabases) {
+      sql.push(`\\connect "${database}"`);
+
+      for (const extension of extensions)
+        sql.push(`CREATE EXTENSION IF NOT EXISTS "${extension}";`);
+
+      for (const role of roles) {
+        if (!(role.databases ?? [props.databaseName]).includes(database))
+          continue;
+
+        if (role.readOnly)
+          sql.push(
+            `GRANT CONNECT ON DATABASE "${database}" TO "${role.name}";`,
+            `GRANT USAGE ON SCHEMA public TO "${role.name}";`,
+            `GRANT SELECT ON ALL TABLES IN SCHEMA public TO "${role.name}";`,
+            `ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT SELECT ON TABLES TO "${role.name}";`,
+          );
+        else
+          sql.push(
+            `GRANT CONNECT, TEMPORARY ON DATABASE "${database}" TO "${role.name}";`,
+            `GRANT USAGE, CREATE ON SCHEMA public TO "${role.name}";`,
+            `GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO "${role.name}";`,
+            `GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public TO "${role.name}";`,
+            `ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO "${role.name}";`,
+            `ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT USAGE, SELECT ON SEQUENCES TO "${role.name}";`,
+          );
+      }
+    }
+
+    // the quoted heredoc means the shell leaves the SQL alone
+    const script = [
+      `psql -v ON_ERROR_STOP=1 ${psqlVariables.join(" ")} <<'SQL'`,
+      ...sql,
+      "SQL",
+    ];
+
+    taskDefinition.addContainer("postgres-bootstrap", {
+      image: ecs.ContainerImage.fromRegistry(imageUri),
+      entryPoint: ["/bin/sh", "-c"],
+      command: [script.join("\n")],
+      environment: {
+        PGHOST: props.hostname,
+        PGPORT: Tokenization.stringifyNumber(props.port),
+        PGDATABASE: props.databaseName,
+        PGSSLMODE: "require",
+      },
+      secrets: secrets,
+      logging: LogDrivers.awsLogs({
+        streamPrefix: "postgres-bootstrap",
+        logGroup: new logs.LogGroup(this, "TaskLog", {
+          retention: props.logRetention,
+        }),
+      }),
+    });
+
+    // every change to the bootstrap settings changes the task definition - and so
+    // causes the task to be run again
+    const runTask = new RunTaskOnDeployConstruct(this, "RunTask", {
+      vpc: props.vpc,
+      cluster: props.cluster,
+      taskDefinition: taskDefinition,
+      securityGroups: [props.securityGroup],
+    });
+
+    this._egressSecurityGroup = runTask.egressSecurityGroup;
+  }
+
+  /**
+   * The secrets holding the username and password of the bootstrapped roles - by role name.
+   */
+  public get roleSecrets(): { [role: string]: ISecret } {
+    return this._roleSecrets;
+  }
+
+  /**
+   * The security group that allows the bootstrap task to reach out over the network.
+   */
+  public get egressSecurityGroup(): ISecurityGroup {
+    return this._egressSecurityGroup;
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  AuroraPostgresEngineVersion,
+  PostgresEngineVersion,
+} from "aws-cdk-lib/aws-rds";
+
+// the versions used when none is asked for
+export const DEFAULT_INSTANCE_ENGINE_VERSION = "14";
+export const DEFAULT_SERVERLESS_ENGINE_VERSION = "15.4";
+
+// the oldest major version of RDS Postgres that is still supported by AWS
+const MINIMUM_INSTANCE_MAJOR_VERSION = 12;
+
+// the oldest version of each major version of Aurora Postgres that
+// supports serverless v2 (major versions not listed do not support it at all)
+const MINIMUM_SERVERLESS_MINOR_VERSIONS: { [major: number]: number } = {
+  13: 6,
+  14: 3,
+  15: 2,
+  16: 1,
+};
+
+type ParsedVersion = {
+  fullVersion: string;
+  majorVersion: string;
+  major: number;
+  minor?: number;
+};
+
+function parseVersion(version: string): ParsedVersion {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(version);
+
+  if (!match)
+    throw new Error(
+      `The Postgres engine version ${version} must be a major version (i.e. "16") or major.minor version (i.e. "16.1")`,
+    );
+
+  return {
+    fullVersion: version,
+    majorVersion: match[1],
+    major: parseInt(match[1], 10),
+    minor: match[2] !== undefined ? parseInt(match[2], 10) : undefined,
+  };
+}
+
+/**
+ * Return the RDS Postgres engine version for the given version string - or
+ * throw an error if the version cannot be used for an instance.
+ *
+ * @param version a version string such as "14" or "15.4"
+ */
+export function instanceEngineVersion(version: string): PostgresEngineVersion {
+  const parsed = parseVersion(version);
+
+  if (parsed.major < MINIMUM_INSTANCE_MAJOR_VERSION)
+    throw new Error(
+      `The Postgres engine version ${version} is older than the oldest supported major version ${MINIMUM_INSTANCE_MAJOR_VERSION}`,
+    );
+
+  return PostgresEngineVersion.of(parsed.fullVersion, parsed.majorVersion);
+}
+
+/**
+ * Return the Aurora Postgres engine version for the given version string - or
+ * throw an error if the version cannot be used for serverless v2.
+ *
+ * @param version a version string such as "15.4"
+ */
+export function serverlessEngineVersion(
+  version: string,
+): AuroraPostgresEngineVersion {
+  const parsed = parseVersion(version);
+
+  const minimumMinor = MINIMUM_SERVERLESS_MINOR_VERSIONS[parsed.major];
+
+  if (minimumMinor === undefined)
+    throw new Error(
+      `The Postgres engine version ${version} is not a major version that supports serverless v2 (${Object.keys(
+        MINIMUM_SERVERLESS_MINOR_VERSIONS,
+      ).join(", ")})`,
+    );
+
+  // aurora always needs an exact version
+  if (parsed.minor === undefined || parsed.minor < minimumMinor)
+    throw new Error(
+      `The Postgres engine version ${version} must be at least ${parsed.major}.${minimumMinor} for serverless v2`,
+    );
+
+  return AuroraPostgresEngineVersion.of(
+    parsed.fullVersion,
+    parsed.majorVersion,
+  );
+}
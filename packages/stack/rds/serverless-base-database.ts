@@ -1,10 +1,19 @@
 import { ISecurityGroup, IVpc, SecurityGroup } from "aws-cdk-lib/aws-ec2";
 import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
-import { ClusterInstance, DatabaseCluster } from "aws-cdk-lib/aws-rds";
+import {
+  ClusterInstance,
+  DatabaseCluster,
+  DatabaseClusterFromSnapshot,
+} from "aws-cdk-lib/aws-rds";
 import { Construct } from "constructs";
-import { aws_ec2 as ec2, aws_rds as rds, RemovalPolicy } from "aws-cdk-lib";
+import { Metric } from "aws-cdk-lib/aws-cloudwatch";
+import { ArnFormat, aws_ec2 as ec2, aws_rds as rds, Stack } from "aws-cdk-lib";
 import { BaseDatabase } from "./base-database";
 import { PostgresCommon } from "../infrastructure-stack-database-props";
+import {
+  DEFAULT_SERVERLESS_ENGINE_VERSION,
+  serverlessEngineVersion,
+} from "./postgres-engine-version";
 
 type ServerlessBaseDatabaseProps = PostgresCommon & {
   vpc: IVpc;
@@ -12,6 +21,10 @@ type ServerlessBaseDatabaseProps = PostgresCommon & {
   databaseName: string;
 
   secret: ISecret;
+
+  // whether the infrastructure is for development - which changes the defaults
+  // for backups, deletion protection etc
+  isDevelopment: boolean;
 };
 
 /**
@@ -19,10 +32,11 @@ type ServerlessBaseDatabaseProps = PostgresCommon & {
  * case representing a V2 Serverless Aurora (in postgres mode).
  */
 export class ServerlessBaseDatabase extends BaseDatabase {
-  private readonly _cluster: DatabaseCluster;
+  private readonly _cluster: DatabaseCluster | DatabaseClusterFromSnapshot;
   private readonly _securityGroup: SecurityGroup;
   private readonly _dsnWithTokens: string;
   private readonly _dsnNoPassword: string;
+  private readonly _hasReaders: boolean;
 
   constructor(
     scope: Construct,
@@ -35,22 +49,41 @@ export class ServerlessBaseDatabase extends BaseDatabase {
     // for services that "can connect to database"
     this._securityGroup = this.createMembershipSecurityGroup(props.vpc);
 
-    let enableMonitoring;
-    if (props.enableMonitoring) {
-      const monitoringRole = this.createMonitoringRole();
+    const enableMonitoring = props.enableMonitoring
+      ? {
+          enablePerformanceInsights:
+            props.enableMonitoring.enablePerformanceInsights,
+          monitoringInterval:
+            props.enableMonitoring.monitoringInterval.toSeconds(),
+          monitoringRoleArn: this.createMonitoringRole().roleArn,
+        }
+      : undefined;
+
+    const engine = rds.DatabaseClusterEngine.auroraPostgres({
+      version: serverlessEngineVersion(
+        props.engineVersion ?? DEFAULT_SERVERLESS_ENGINE_VERSION,
+      ),
+    });
 
-      enableMonitoring = {
-        enablePerformanceInsights:
-          props.enableMonitoring.enablePerformanceInsights,
-        cloudwatchLogsExports: props.enableMonitoring.cloudwatchLogsExports,
-        monitoringInterval:
-          props.enableMonitoring.monitoringInterval.toSeconds(),
-        monitoringRoleArn: monitoringRole.roleArn,
-      };
-    }
+    const readerCount = props.readers ?? 0;
+
+    if (!Number.isInteger(readerCount) || readerCount < 0 || readerCount > 15)
+      throw new Error(
+        `The database ${props.databaseName} can only have between 0 and 15 readers`,
+      );
+
+    this._hasReaders = readerCount > 0;
+
+    // readers are monitored the same as the writer
+    const readers = Array.from({ length: readerCount }, (_, i) =>
+      ClusterInstance.serverlessV2(`Reader${i + 1}`, {
+        scaleWithWriter: props.readersScaleWithWriter,
+        ...(enableMonitoring && { ...enableMonitoring }),
+      }),
+    );
 
     // Serverless V2 Cluster.
-    this._cluster = new DatabaseCluster(this, "Cluster", {
+    const clusterProps = {
       vpc: props.vpc,
       vpcSubnets: {
         subnetType: props.makePubliclyReachable
@@ -58,23 +91,68 @@ export class ServerlessBaseDatabase extends BaseDatabase {
           : ec2.SubnetType.PRIVATE_WITH_EGRESS,
       },
       securityGroups: [this._securityGroup],
-      credentials: rds.Credentials.fromSecret(props.secret),
       // destroy on remove tells us we don't really care much about the data (demo instances etc)
-      removalPolicy: props.destroyOnRemove
-        ? RemovalPolicy.DESTROY
-        : RemovalPolicy.SNAPSHOT,
-      // the default database to create in the cluster - we insist on it being named otherwise no default db is made
-      defaultDatabaseName: props.databaseName,
-      engine: rds.DatabaseClusterEngine.auroraPostgres({
-        version: rds.AuroraPostgresEngineVersion.VER_15_4,
+      removalPolicy: this.removalPolicy(props.destroyOnRemove),
+      // clusters insist on at least one day of backups
+      backup: {
+        retention: this.backupRetention(
+          props.isDevelopment,
+          props.destroyOnRemove,
+          1,
+        ),
+      },
+      deletionProtection: !props.isDevelopment,
+      iamAuthentication: props.enableIamAuthentication,
+      // log exports are a setting of the cluster - not the individual instances
+      ...(props.enableMonitoring && {
+        cloudwatchLogsExports: props.enableMonitoring.cloudwatchLogsExports,
+        cloudwatchLogsRetention: this.cloudwatchLogsRetention(
+          props.isDevelopment,
+        ),
       }),
+      engine: engine,
+      parameterGroup: this.createParameterGroup(engine, props.parameters),
       serverlessV2MinCapacity: props.minCapacity ?? 0.5,
       serverlessV2MaxCapacity:
         props.maxCapacity ?? rds.AuroraCapacityUnit.ACU_4,
       writer: ClusterInstance.serverlessV2("Writer", {
         ...(enableMonitoring && { ...enableMonitoring }),
       }),
-    });
+      readers: readers,
+    };
+
+    // when restoring from a snapshot, the database comes from the snapshot - but the
+    // admin password is still set to that of our secret
+    this._cluster = props.snapshotIdentifier
+      ? new DatabaseClusterFromSnapshot(this, "Cluster", {
+          ...clusterProps,
+          snapshotIdentifier: props.snapshotIdentifier,
+          snapshotCredentials: rds.SnapshotCredentials.fromSecret(props.secret),
+        })
+      : new DatabaseCluster(this, "Cluster", {
+          ...clusterProps,
+          credentials: rds.Credentials.fromSecret(props.secret),
+          // the default database to create in the cluster - we insist on it being named otherwise no default db is made
+          defaultDatabaseName: props.databaseName,
+        });
+
+    if (props.rotateAdminPasswordAfter)
+      this.addAdminPasswordRotation(
+        this._cluster.secret!,
+        props.vpc,
+        this._securityGroup,
+        props.rotateAdminPasswordAfter,
+      );
+
+    if (props.enableProxy)
+      this.createProxy(
+        rds.ProxyTarget.fromCluster(this._cluster),
+        this._cluster.secret!,
+        props.vpc,
+        this._securityGroup,
+        props.adminUser,
+        props.databaseName,
+      );
 
     this.applySecurityGroupRules(
       this._securityGroup,
@@ -99,6 +177,10 @@ export class ServerlessBaseDatabase extends BaseDatabase {
       `${props.adminUser}@${this._cluster.clusterEndpoint.hostname}:${this._cluster.clusterEndpoint.port}/${props.databaseName}`;
   }
 
+  public metric(metricName: string): Metric {
+    return this._cluster.metric(metricName);
+  }
+
   public get dsnWithTokens(): string {
     return this._dsnWithTokens;
   }
@@ -107,6 +189,25 @@ export class ServerlessBaseDatabase extends BaseDatabase {
     return this._dsnNoPassword;
   }
 
+  public get readerHostname(): string | undefined {
+    if (!this._hasReaders) return undefined;
+
+    return this._cluster.clusterReadEndpoint.hostname;
+  }
+
+  public get arn(): string {
+    return Stack.of(this).formatArn({
+      service: "rds",
+      resource: "cluster",
+      resourceName: this._cluster.clusterIdentifier,
+      arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+    });
+  }
+
+  public get resourceId(): string {
+    return this._cluster.clusterResourceIdentifier;
+  }
+
   public get hostname(): string {
     return this._cluster.clusterEndpoint.hostname;
   }
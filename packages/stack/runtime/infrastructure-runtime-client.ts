@@ -0,0 +1,381 @@
+import {
+  ArnParameterKey,
+  ParameterKey,
+  parameterPath,
+  PARAMETER_MANIFEST,
+  StringListParameterKey,
+  StringParameterKey,
+} from "../parameter-manifest";
+
+// NOTE: this client is for use at runtime (scripts, CLIs, lambdas) - so it must not
+// import anything from CDK. It is not part of the JSII interface of this package and
+// should be imported directly from this module.
+
+/**
+ * A function that returns the value of the given SSM parameter - or undefined
+ * if the parameter does not exist. This allows the runtime client to be used
+ * with whatever version of the AWS SDK (or test double) is at hand.
+ */
+export type ParameterGetter = (name: string) => Promise<string | undefined>;
+
+export interface RuntimeVpc {
+  readonly vpcId: string;
+  readonly availabilityZones: string[];
+  readonly publicSubnetIds: string[];
+  readonly publicSubnetRouteTableIds: string[];
+  readonly privateSubnetIds: string[];
+  readonly privateSubnetRouteTableIds: string[];
+  readonly isolatedSubnetIds: string[];
+  readonly isolatedSubnetRouteTableIds: string[];
+  readonly securityGroupId: string;
+  readonly internalSecurityGroupId: string;
+}
+
+export interface RuntimeNamespace {
+  readonly namespaceName: string;
+  readonly namespaceId: string;
+  readonly namespaceArn: string;
+}
+
+export interface RuntimeDns {
+  readonly hostedZoneName: string;
+  readonly hostedZoneId: string;
+  readonly certificateArn: string;
+}
+
+export interface RuntimeTempBucket {
+  readonly bucketArn: string;
+  readonly bucketName: string;
+}
+
+export interface RuntimePostgresDatabase {
+  readonly hostname: string;
+  // only present if the database has readers
+  readonly readerHostname?: string;
+  readonly port: number;
+  readonly adminUser: string;
+  readonly dsnNoPassword: string;
+  readonly adminPasswordSecretArn: string;
+  readonly securityGroupId: string;
+}
+
+export interface RuntimePostgresProxy {
+  readonly hostname: string;
+  readonly dsnNoPassword: string;
+  readonly proxyName: string;
+  readonly proxyArn: string;
+  readonly securityGroupId: string;
+}
+
+export interface RuntimeEdgeDb {
+  readonly dsnNoPasswordOrDatabase: string;
+  readonly adminPasswordSecretArn: string;
+  readonly securityGroupId: string;
+}
+
+/**
+ * A client that gives access to the values of an infrastructure stack (by stack id)
+ * at runtime - reading the same SSM parameters as the CDK infrastructure client.
+ */
+export class InfrastructureRuntimeClient {
+  constructor(
+    private readonly infrastructureStackId: string,
+    private readonly getParameter: ParameterGetter,
+  ) {}
+
+  /**
+   * Get the details of the VPC - where subnets that do not exist are
+   * returned as empty lists.
+   */
+  public async getVpc(): Promise<RuntimeVpc> {
+    return {
+      vpcId: await this.getString("vpcId"),
+      availabilityZones: await this.getStringList("vpcAvailabilityZones"),
+      publicSubnetIds: await this.getStringList("vpcPublicSubnetIds"),
+      publicSubnetRouteTableIds: await this.getStringList(
+        "vpcPublicSubnetRouteTableIds",
+      ),
+      privateSubnetIds: await this.getStringList("vpcPrivateSubnetIds"),
+      privateSubnetRouteTableIds: await this.getStringList(
+        "vpcPrivateSubnetRouteTableIds",
+      ),
+      isolatedSubnetIds: await this.getStringList("vpcIsolatedSubnetIds"),
+      isolatedSubnetRouteTableIds: await this.getStringList(
+        "vpcIsolatedSubnetRouteTableIds",
+      ),
+      securityGroupId: await this.getString("vpcSecurityGroupId"),
+      internalSecurityGroupId: await this.getString(
+        "vpcInternalSecurityGroupId",
+      ),
+    };
+  }
+
+  /**
+   * Get the prefix of the name of all secrets of this infrastructure.
+   */
+  public async getSecretsPrefix(): Promise<string> {
+    return this.getString("secretsManagerSecretsPrefix");
+  }
+
+  /**
+   * Get the temporary bucket.
+   */
+  public async getTempBucket(): Promise<RuntimeTempBucket> {
+    return {
+      bucketArn: await this.getString("tempPrivateBucketArn"),
+      bucketName: await this.getString("tempPrivateBucketName"),
+    };
+  }
+
+  /**
+   * Get the CloudMap namespace - or undefined if the infrastructure
+   * has no namespace.
+   */
+  public async getNamespace(): Promise<RuntimeNamespace | undefined> {
+    const namespaceName = await this.getOptionalString("namespaceName");
+
+    if (namespaceName === undefined) return undefined;
+
+    return {
+      namespaceName: namespaceName,
+      namespaceId: await this.getString("namespaceId"),
+      namespaceArn: await this.getString("namespaceArn"),
+    };
+  }
+
+  /**
+   * Get the DNS zone and certificate - or undefined if the infrastructure
+   * has no DNS.
+   */
+  public async getDns(): Promise<RuntimeDns | undefined> {
+    const hostedZoneName = await this.getOptionalString("hostedZoneName");
+
+    if (hostedZoneName === undefined) return undefined;
+
+    return {
+      hostedZoneName: hostedZoneName,
+      hostedZoneId: await this.getString("hostedZoneId"),
+      certificateArn: await this.getString("certificateArn"),
+    };
+  }
+
+  /**
+   * Get the ARN of the backup vault - or undefined if the infrastructure
+   * has no backups.
+   */
+  public async getBackupVaultArn(): Promise<string | undefined> {
+    return this.getOptionalString("backupVaultArn");
+  }
+
+  /**
+   * Get the id of the bastion instance - or undefined if the infrastructure
+   * has no bastion.
+   */
+  public async getBastionInstanceId(): Promise<string | undefined> {
+    return this.getOptionalString("bastionInstanceId");
+  }
+
+  /**
+   * Get the details of the given Postgres database.
+   *
+   * @param databaseName
+   */
+  public async getPostgresDatabase(
+    databaseName: string,
+  ): Promise<RuntimePostgresDatabase> {
+    return {
+      hostname: await this.getString("databaseHostname", databaseName),
+      readerHostname: await this.getOptionalString(
+        "databaseReaderHostname",
+        databaseName,
+      ),
+      port: parseInt(await this.getString("databasePort", databaseName), 10),
+      adminUser: await this.getString("databaseAdminUser", databaseName),
+      dsnNoPassword: await this.getString(
+        "databaseDsnNoPassword",
+        databaseName,
+      ),
+      adminPasswordSecretArn: await this.getString(
+        "databaseAdminPasswordSecretArn",
+        databaseName,
+      ),
+      securityGroupId: await this.getString(
+        "databaseSecurityGroupId",
+        databaseName,
+      ),
+    };
+  }
+
+  /**
+   * Get the resource id (as used in the ARNs of IAM database authentication) of the
+   * given Postgres database - or undefined if the database does not have IAM
+   * authentication switched on.
+   *
+   * @param databaseName
+   */
+  public async getPostgresResourceId(
+    databaseName: string,
+  ): Promise<string | undefined> {
+    return this.getOptionalString("databaseResourceId", databaseName);
+  }
+
+  /**
+   * Get the details of the RDS Proxy in front of the given database - or
+   * undefined if the database has no proxy.
+   *
+   * @param databaseName
+   */
+  public async getPostgresProxy(
+    databaseName: string,
+  ): Promise<RuntimePostgresProxy | undefined> {
+    const hostname = await this.getOptionalString(
+      "databaseProxyHostname",
+      databaseName,
+    );
+
+    if (hostname === undefined) return undefined;
+
+    return {
+      hostname: hostname,
+      dsnNoPassword: await this.getString(
+        "databaseProxyDsnNoPassword",
+        databaseName,
+      ),
+      proxyName: await this.getString("databaseProxyName", databaseName),
+      proxyArn: await this.getString("databaseProxyArn", databaseName),
+      securityGroupId: await this.getString(
+        "databaseProxySecurityGroupId",
+        databaseName,
+      ),
+    };
+  }
+
+  /**
+   * Get the details of the EdgeDb in front of the given database - or
+   * undefined if the database has no EdgeDb.
+   *
+   * @param databaseName
+   */
+  public async getEdgeDb(
+    databaseName: string,
+  ): Promise<RuntimeEdgeDb | undefined> {
+    const dsn = await this.getOptionalString(
+      "databaseEdgeDbDsnNoPasswordOrDatabase",
+      databaseName,
+    );
+
+    if (dsn === undefined) return undefined;
+
+    return {
+      dsnNoPasswordOrDatabase: dsn,
+      adminPasswordSecretArn: await this.getString(
+        "databaseEdgeDbAdminPasswordSecretArn",
+        databaseName,
+      ),
+      securityGroupId: await this.getString(
+        "databaseEdgeDbSecurityGroupId",
+        databaseName,
+      ),
+    };
+  }
+
+  /**
+   * Get the ARN of the secret holding the username and password of an application
+   * role created by the bootstrap of the given Postgres database.
+   *
+   * @param databaseName
+   * @param roleName
+   */
+  public async getPostgresRoleSecretArn(
+    databaseName: string,
+    roleName: string,
+  ): Promise<string> {
+    return this.getRoleSecretArn(
+      "databaseRoleSecretArns",
+      databaseName,
+      roleName,
+    );
+  }
+
+  /**
+   * Get the ARN of the secret holding the password of a (non-superuser) role
+   * created by the bootstrap of the EdgeDb in front of the given database.
+   *
+   * @param databaseName
+   * @param roleName
+   */
+  public async getEdgeDbRolePasswordSecretArn(
+    databaseName: string,
+    roleName: string,
+  ): Promise<string> {
+    return this.getRoleSecretArn(
+      "databaseEdgeDbRoleSecretArns",
+      databaseName,
+      roleName,
+    );
+  }
+
+  private async getRoleSecretArn(
+    key: "databaseRoleSecretArns" | "databaseEdgeDbRoleSecretArns",
+    databaseName: string,
+    roleName: string,
+  ): Promise<string> {
+    const roleSecretArns: { [role: string]: string } = JSON.parse(
+      await this.getString(key, databaseName),
+    );
+
+    if (!(roleName in roleSecretArns))
+      throw new Error(
+        `The database ${databaseName} was not bootstrapped with a role ${roleName}`,
+      );
+
+    return roleSecretArns[roleName];
+  }
+
+  private async getOptionalString(
+    key: StringParameterKey | ArnParameterKey,
+    databaseName?: string,
+  ): Promise<string | undefined> {
+    return this.getParameter(
+      parameterPath(key, this.infrastructureStackId, databaseName),
+    );
+  }
+
+  private async getString(
+    key: StringParameterKey | ArnParameterKey,
+    databaseName?: string,
+  ): Promise<string> {
+    const value = await this.getOptionalString(key, databaseName);
+
+    if (value === undefined) this.throwMissing(key, databaseName);
+
+    return value;
+  }
+
+  private async getStringList(key: StringListParameterKey): Promise<string[]> {
+    const path = parameterPath(key, this.infrastructureStackId);
+    const value = await this.getParameter(path);
+
+    if (value === undefined) this.throwMissing(key);
+
+    // the infrastructure stack uses "empty" to indicate a list with no entries
+    // (as SSM string lists cannot be zero length)
+    if (value === "empty") return [];
+
+    return value.split(",");
+  }
+
+  private throwMissing(key: ParameterKey, databaseName?: string): never {
+    const optional = PARAMETER_MANIFEST[key].optional
+      ? " (the infrastructure may not have this feature switched on)"
+      : "";
+
+    throw new Error(
+      `The infrastructure parameter ${parameterPath(
+        key,
+        this.infrastructureStackId,
+        databaseName,
+      )} does not exist${optional}`,
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { ECSClient } from "@aws-sdk/client-ecs";
+import { SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+import { handler } from "../edge-db/edge-db-rotation-lambda";
+
+const SECRET_ID =
+  "arn:aws:secretsmanager:ap-southeast-2:123456789012:secret:EdgeDb";
+const TOKEN = "new-version";
+const TASK_ARN = "arn:aws:ecs:ap-southeast-2:123456789012:task/cluster/abc";
+
+/**
+ * A rotation event for the given step.
+ *
+ * @param step
+ */
+function event(step: string): any {
+  return { SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: step };
+}
+
+/**
+ * Mock the secret as being part way through a rotation - with the token
+ * in the given stage.
+ *
+ * @param stage
+ */
+function mockSecret(stage: string) {
+  return jest.spyOn(SecretsManagerClient.prototype, "send").mockResolvedValue({
+    RotationEnabled: true,
+    VersionIdsToStages: { [TOKEN]: [stage], "old-version": ["AWSCURRENT"] },
+  } as never);
+}
+
+describe("EdgeDb rotation", () => {
+  beforeEach(() => {
+    process.env.CLUSTER_ARN =
+      "arn:aws:ecs:ap-southeast-2:123456789012:cluster/cluster";
+    process.env.TASK_DEFINITION_ARN =
+      "arn:aws:ecs:ap-southeast-2:123456789012:task-definition/rotation:1";
+    process.env.SERVICE_NAME = "edge-db";
+    process.env.SUBNET_IDS = "subnet-private1,subnet-private2";
+    process.env.SECURITY_GROUP_IDS = "sg-egress,sg-membership";
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("does nothing for a version that is already current", async () => {
+    mockSecret("AWSCURRENT");
+    const send = jest.spyOn(ECSClient.prototype, "send");
+
+    await handler(event("setSecret"));
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("changes the password with the task and waits for it", async () => {
+    mockSecret("AWSPENDING");
+    const send = jest
+      .spyOn(ECSClient.prototype, "send")
+      .mockResolvedValueOnce({ tasks: [{ taskArn: TASK_ARN }] } as never)
+      .mockResolvedValue({
+        tasks: [
+          {
+            taskArn: TASK_ARN,
+            lastStatus: "STOPPED",
+            containers: [{ name: "edge-db-rotation", exitCode: 0 }],
+          },
+        ],
+      } as never);
+
+    await handler(event("setSecret"));
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails the rotation if the task fails", async () => {
+    mockSecret("AWSPENDING");
+    jest
+      .spyOn(ECSClient.prototype, "send")
+      .mockResolvedValueOnce({ tasks: [{ taskArn: TASK_ARN }] } as never)
+      .mockResolvedValue({
+        tasks: [
+          {
+            taskArn: TASK_ARN,
+            lastStatus: "STOPPED",
+            containers: [{ name: "edge-db-rotation", exitCode: 1 }],
+          },
+        ],
+      } as never);
+
+    await expect(handler(event("setSecret"))).rejects.toThrow(/exited with 1/);
+  });
+
+  it("fails the rotation if the task cannot be started", async () => {
+    mockSecret("AWSPENDING");
+    jest.spyOn(ECSClient.prototype, "send").mockResolvedValue({
+      tasks: [],
+      failures: [{ reason: "RESOURCE:MEMORY" }],
+    } as never);
+
+    await expect(handler(event("setSecret"))).rejects.toThrow(
+      /RESOURCE:MEMORY/,
+    );
+  });
+
+  it("restarts EdgeDb once the new password is current", async () => {
+    const secrets = mockSecret("AWSPENDING");
+    const send = jest
+      .spyOn(ECSClient.prototype, "send")
+      .mockResolvedValue({} as never);
+
+    await handler(event("finishSecret"));
+
+    expect(secrets.mock.calls[1][0].input).toEqual({
+      SecretId: SECRET_ID,
+      VersionStage: "AWSCURRENT",
+      MoveToVersionId: TOKEN,
+      RemoveFromVersionId: "old-version",
+    });
+    expect(send.mock.calls[0][0].input).toEqual({
+      cluster: process.env.CLUSTER_ARN,
+      service: "edge-db",
+      forceNewDeployment: true,
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import { App, Stack } from "aws-cdk-lib";
+import { Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
+import { Template } from "aws-cdk-lib/assertions";
+import { Construct } from "constructs";
+import { InfrastructureClient } from "../infrastructure-client";
+import {
+  databaseAdminPasswordSecretArnParameterName,
+  databaseEdgeDbRoleSecretArnsParameterName,
+  databaseHostnameParameterName,
+  databasePortParameterName,
+  databaseProxyArnParameterName,
+  databaseProxyHostnameParameterName,
+  databaseProxyNameParameterName,
+  databaseResourceIdParameterName,
+  vpcAvailabilityZonesParameterName,
+  vpcIdParameterName,
+  vpcIsolatedSubnetIdsParameterName,
+  vpcIsolatedSubnetRouteTableIdsParameterName,
+  vpcPrivateSubnetIdsParameterName,
+  vpcPrivateSubnetRouteTableIdsParameterName,
+  vpcPublicSubnetIdsParameterName,
+  vpcPublicSubnetRouteTableIdsParameterName,
+} from "../parameter-names";
+import { ssmContextKey, TEST_ENV } from "./test-context";
+
+const INFRA_ID = "Infra";
+
+/**
+ * Create a stack that an application would use the infrastructure client in - with
+ * the given parameters stubbed out as if they had already been looked up.
+ *
+ * @param parameters a map of SSM parameter name to (comma separated) parameter value
+ */
+function createClientStack(parameters: { [name: string]: string } = {}) {
+  const context: { [k: string]: string } = {};
+
+  for (const [k, v] of Object.entries(parameters))
+    context[ssmContextKey(k)] = v;
+
+  return new Stack(new App({ context }), "ClientStack", { env: TEST_ENV });
+}
+
+function vpcParameters(privateSubnets: string, isolatedSubnets: string) {
+  return {
+    [vpcIdParameterName(INFRA_ID)]: "vpc-0123456789abcdef0",
+    [vpcAvailabilityZonesParameterName(INFRA_ID)]:
+      "ap-southeast-2a,ap-southeast-2b",
+    [vpcPublicSubnetIdsParameterName(INFRA_ID)]:
+      "subnet-public1,subnet-public2",
+    [vpcPublicSubnetRouteTableIdsParameterName(INFRA_ID)]:
+      "rtb-public1,rtb-public2",
+    [vpcPrivateSubnetIdsParameterName(INFRA_ID)]: privateSubnets,
+    [vpcPrivateSubnetRouteTableIdsParameterName(INFRA_ID)]:
+      privateSubnets === "empty" ? "empty" : "rtb-private1,rtb-private2",
+    [vpcIsolatedSubnetIdsParameterName(INFRA_ID)]: isolatedSubnets,
+    [vpcIsolatedSubnetRouteTableIdsParameterName(INFRA_ID)]:
+      isolatedSubnets === "empty" ? "empty" : "rtb-isolated1,rtb-isolated2",
+  };
+}
+
+describe("getVpcFromLookup", () => {
+  it("constructs a VPC from dummy values before lookups have happened", () => {
+    const stack = createClientStack();
+
+    const vpc = new InfrastructureClient(INFRA_ID).getVpcFromLookup(stack);
+
+    expect(vpc.vpcId).toContain("dummy-value-for");
+    // on the dummy pass we must assume the subnets exist
+    expect(vpc.privateSubnets).toHaveLength(1);
+    expect(vpc.isolatedSubnets).toHaveLength(1);
+  });
+
+  it("constructs a VPC with all subnets", () => {
+    const stack = createClientStack(
+      vpcParameters(
+        "subnet-private1,subnet-private2",
+        "subnet-isolated1,subnet-isolated2",
+      ),
+    );
+
+    const vpc = new InfrastructureClient(INFRA_ID).getVpcFromLookup(stack);
+
+    expect(vpc.vpcId).toBe("vpc-0123456789abcdef0");
+    expect(vpc.availabilityZones).toEqual([
+      "ap-southeast-2a",
+      "ap-southeast-2b",
+    ]);
+    expect(vpc.publicSubnets.map((s) => s.subnetId)).toEqual([
+      "subnet-public1",
+      "subnet-public2",
+    ]);
+    expect(vpc.privateSubnets.map((s) => s.subnetId)).toEqual([
+      "subnet-private1",
+      "subnet-private2",
+    ]);
+    expect(vpc.isolatedSubnets.map((s) => s.subnetId)).toEqual([
+      "subnet-isolated1",
+      "subnet-isolated2",
+    ]);
+  });
+
+  it("constructs a VPC without subnets marked as empty", () => {
+    const stack = createClientStack(
+      vpcParameters("subnet-private1,subnet-private2", "empty"),
+    );
+
+    const vpc = new InfrastructureClient(INFRA_ID).getVpcFromLookup(stack);
+
+    expect(vpc.privateSubnets).toHaveLength(2);
+    expect(vpc.isolatedSubnets).toHaveLength(0);
+  });
+
+  it("constructs a VPC with only public subnets", () => {
+    const stack = createClientStack(vpcParameters("empty", "empty"));
+
+    const vpc = new InfrastructureClient(INFRA_ID).getVpcFromLookup(stack);
+
+    expect(vpc.publicSubnets).toHaveLength(2);
+    expect(vpc.privateSubnets).toHaveLength(0);
+    expect(vpc.isolatedSubnets).toHaveLength(0);
+  });
+});
+
+describe("getPostgresDatabaseFromLookup", () => {
+  it("returns plausible values before lookups have happened", () => {
+    const stack = createClientStack();
+
+    const db = new InfrastructureClient(INFRA_ID).getPostgresDatabaseFromLookup(
+      stack,
+      "my_db",
+    );
+
+    expect(db.port).toBe(5432);
+    expect(db.hostname).toContain("dummy-value-for");
+    // the dummy secret ARN must be a real ARN else CDK will fail to parse it
+    expect(db.adminPasswordSecret.secretArn).toContain(
+      "adminPasswordSecretThoughThisIsNotReal",
+    );
+  });
+
+  it("returns the looked up values", () => {
+    const secretArn =
+      "arn:aws:secretsmanager:ap-southeast-2:123456789012:secret:TestMyDbRds-AbCdEf";
+
+    const stack = createClientStack({
+      [databaseHostnameParameterName(INFRA_ID, "my_db")]: "db.example.com",
+      [databasePortParameterName(INFRA_ID, "my_db")]: "5433",
+      [databaseAdminPasswordSecretArnParameterName(INFRA_ID, "my_db")]:
+        secretArn,
+    });
+
+    const db = new InfrastructureClient(INFRA_ID).getPostgresDatabaseFromLookup(
+      stack,
+      "my_db",
+    );
+
+    expect(db.hostname).toBe("db.example.com");
+    expect(db.port).toBe(5433);
+    expect(db.adminPasswordSecret.secretArn).toBe(secretArn);
+  });
+});
+
+describe("getPostgresProxyFromLookup", () => {
+  it("returns a proxy that can grant IAM auth connections", () => {
+    const stack = createClientStack({
+      [databaseProxyHostnameParameterName(INFRA_ID, "my_db")]:
+        "proxy.example.com",
+      [databaseProxyNameParameterName(INFRA_ID, "my_db")]: "my-proxy",
+      [databaseProxyArnParameterName(INFRA_ID, "my_db")]:
+        "arn:aws:rds:ap-southeast-2:123456789012:db-proxy:prx-0123456789abcdef0",
+    });
+
+    const proxy = new InfrastructureClient(INFRA_ID).getPostgresProxyFromLookup(
+      stack,
+      "my_db",
+    );
+
+    expect(proxy.hostname).toBe("proxy.example.com");
+    expect(proxy.proxy.dbProxyName).toBe("my-proxy");
+
+    proxy.proxy.grantConnect(
+      new Role(stack, "Role", {
+        assumedBy: new ServicePrincipal("lambda.amazonaws.com"),
+      }),
+      "elsa_app",
+    );
+
+    Template.fromStack(stack).hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: [
+          {
+            Action: "rds-db:connect",
+            Effect: "Allow",
+            Resource: {
+              "Fn::Join": [
+                "",
+                [
+                  "arn:",
+                  { Ref: "AWS::Partition" },
+                  ":rds-db:ap-southeast-2:123456789012:dbuser:prx-0123456789abcdef0/elsa_app",
+                ],
+              ],
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it("returns a plausible proxy before lookups have happened", () => {
+    const stack = createClientStack();
+
+    const proxy = new InfrastructureClient(INFRA_ID).getPostgresProxyFromLookup(
+      stack,
+      "my_db",
+    );
+
+    expect(proxy.proxy.dbProxyArn).toContain("proxyThoughThisIsNotReal");
+  });
+});
+
+describe("grantDatabaseConnect", () => {
+  it("grants IAM database authentication as the given user", () => {
+    const stack = createClientStack({
+      [databaseResourceIdParameterName(INFRA_ID, "my_db")]: "db-ABCDEFGHIJ",
+    });
+
+    new InfrastructureClient(INFRA_ID).grantDatabaseConnect(
+      stack,
+      new Role(stack, "Role", {
+        assumedBy: new ServicePrincipal("lambda.amazonaws.com"),
+      }),
+      "my_db",
+      "elsa_app",
+    );
+
+    Template.fromStack(stack).hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: [
+          {
+            Action: "rds-db:connect",
+            Effect: "Allow",
+            Resource: {
+              "Fn::Join": [
+                "",
+                [
+                  "arn:",
+                  { Ref: "AWS::Partition" },
+                  ":rds-db:ap-southeast-2:123456789012:dbuser:db-ABCDEFGHIJ/elsa_app",
+                ],
+              ],
+            },
+          },
+        ],
+      },
+    });
+  });
+});
+
+describe("getPostgresResourceIdFromLookup", () => {
+  it("returns a plausible resource id before the lookup is done", () => {
+    const stack = createClientStack();
+
+    expect(
+      new InfrastructureClient(INFRA_ID).getPostgresResourceIdFromLookup(
+        stack,
+        "my_db",
+      ),
+    ).toEqual("db-DUMMYRESOURCEID");
+  });
+});
+
+describe("getEdgeDbRolePasswordSecretFromLookup", () => {
+  it("returns the secret of the bootstrapped role", () => {
+    const secretArn =
+      "arn:aws:secretsmanager:ap-southeast-2:123456789012:secret:TestMyDbEdgeDbElsaApp-AbCdEf";
+
+    const stack = createClientStack({
+      [databaseEdgeDbRoleSecretArnsParameterName(INFRA_ID, "my_db")]:
+        JSON.stringify({ elsa_app: secretArn }),
+    });
+
+    const secret = new InfrastructureClient(
+      INFRA_ID,
+    ).getEdgeDbRolePasswordSecretFromLookup(stack, "my_db", "elsa_app");
+
+    expect(secret.secretArn).toBe(secretArn);
+  });
+
+  it("fails for a role that was not bootstrapped", () => {
+    const stack = createClientStack({
+      [databaseEdgeDbRoleSecretArnsParameterName(INFRA_ID, "my_db")]: "{}",
+    });
+
+    expect(() =>
+      new InfrastructureClient(INFRA_ID).getEdgeDbRolePasswordSecretFromLookup(
+        stack,
+        "my_db",
+        "elsa_app",
+      ),
+    ).toThrow(/not bootstrapped with a role elsa_app/);
+  });
+});
+
+describe("lookups in the same scope", () => {
+  it("returns the same object for repeated lookups", () => {
+    const stack = createClientStack();
+    const client = new InfrastructureClient(INFRA_ID);
+
+    expect(client.getVpcFromLookup(stack)).toBe(client.getVpcFromLookup(stack));
+    expect(client.getTempBucketFromLookup(stack)).toBe(
+      client.getTempBucketFromLookup(stack),
+    );
+    expect(client.getEdgeDbSecurityGroupFromLookup(stack, "my_db")).toBe(
+      client.getEdgeDbSecurityGroupFromLookup(stack, "my_db"),
+    );
+    expect(
+      client.getPostgresDatabaseFromLookup(stack, "my_db").securityGroup,
+    ).toBe(client.getPostgresSecurityGroupFromLookup(stack, "my_db"));
+  });
+
+  it("fails rather than return another construct with the same id", () => {
+    const stack = createClientStack();
+
+    new Construct(stack, `${INFRA_ID}Vpc`);
+
+    expect(() =>
+      new InfrastructureClient(INFRA_ID).getVpcFromLookup(stack),
+    ).toThrow(/already a Construct/);
+  });
+
+  it("allows lookups of different databases", () => {
+    const stack = createClientStack();
+    const client = new InfrastructureClient(INFRA_ID);
+
+    const first = client.getEdgeDbSecurityGroupFromLookup(stack, "first_db");
+    const second = client.getEdgeDbSecurityGroupFromLookup(stack, "second_db");
+
+    expect(first).not.toBe(second);
+    expect(
+      client.getEdgeDbAdminPasswordSecretFromLookup(stack, "first_db"),
+    ).not.toBe(
+      client.getEdgeDbAdminPasswordSecretFromLookup(stack, "second_db"),
+    );
+  });
+
+  it("allows lookups from different infrastructure stacks", () => {
+    const stack = createClientStack();
+
+    const first = new InfrastructureClient("FirstInfra");
+    const second = new InfrastructureClient("SecondInfra");
+
+    expect(first.getVpcFromLookup(stack)).not.toBe(
+      second.getVpcFromLookup(stack),
+    );
+    expect(first.getNamespaceFromLookup(stack)).not.toBe(
+      second.getNamespaceFromLookup(stack),
+    );
+    expect(first.getDnsFromLookup(stack).certificate).not.toBe(
+      second.getDnsFromLookup(stack).certificate,
+    );
+  });
+});
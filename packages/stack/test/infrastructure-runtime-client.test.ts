@@ -0,0 +1,213 @@
+import { InfrastructureRuntimeClient } from "../runtime/infrastructure-runtime-client";
+import {
+  ParameterKey,
+  parameterPath,
+  PARAMETER_MANIFEST,
+} from "../parameter-manifest";
+
+const INFRA_ID = "Infra";
+
+/**
+ * Create a runtime client that reads from an in-memory parameter store.
+ *
+ * @param parameters a map of SSM parameter name to (comma separated) parameter value
+ */
+function createRuntimeClient(parameters: { [name: string]: string }) {
+  const store = new Map(Object.entries(parameters));
+
+  return new InfrastructureRuntimeClient(INFRA_ID, async (name) =>
+    store.get(name),
+  );
+}
+
+function vpcParameters(isolatedSubnets: string) {
+  return {
+    [parameterPath("vpcId", INFRA_ID)]: "vpc-0123456789abcdef0",
+    [parameterPath("vpcAvailabilityZones", INFRA_ID)]:
+      "ap-southeast-2a,ap-southeast-2b",
+    [parameterPath("vpcPublicSubnetIds", INFRA_ID)]:
+      "subnet-public1,subnet-public2",
+    [parameterPath("vpcPublicSubnetRouteTableIds", INFRA_ID)]:
+      "rtb-public1,rtb-public2",
+    [parameterPath("vpcPrivateSubnetIds", INFRA_ID)]:
+      "subnet-private1,subnet-private2",
+    [parameterPath("vpcPrivateSubnetRouteTableIds", INFRA_ID)]:
+      "rtb-private1,rtb-private2",
+    [parameterPath("vpcIsolatedSubnetIds", INFRA_ID)]: isolatedSubnets,
+    [parameterPath("vpcIsolatedSubnetRouteTableIds", INFRA_ID)]:
+      isolatedSubnets,
+    [parameterPath("vpcSecurityGroupId", INFRA_ID)]: "sg-vpc",
+    [parameterPath("vpcInternalSecurityGroupId", INFRA_ID)]: "sg-internal",
+  };
+}
+
+function databaseParameters(databaseName: string) {
+  return {
+    [parameterPath("databaseHostname", INFRA_ID, databaseName)]:
+      "db.example.com",
+    [parameterPath("databasePort", INFRA_ID, databaseName)]: "5432",
+    [parameterPath("databaseAdminUser", INFRA_ID, databaseName)]: "elsa_admin",
+    [parameterPath("databaseDsnNoPassword", INFRA_ID, databaseName)]:
+      "postgres://elsa_admin@db.example.com:5432",
+    [parameterPath("databaseAdminPasswordSecretArn", INFRA_ID, databaseName)]:
+      "arn:aws:secretsmanager:ap-southeast-2:123456789012:secret:TestRdsSecret-AbCdEf",
+    [parameterPath("databaseSecurityGroupId", INFRA_ID, databaseName)]: "sg-db",
+  };
+}
+
+describe("runtime client", () => {
+  it("returns the VPC with subnet lists split out", async () => {
+    const vpc = await createRuntimeClient(
+      vpcParameters("subnet-isolated1,subnet-isolated2"),
+    ).getVpc();
+
+    expect(vpc.vpcId).toBe("vpc-0123456789abcdef0");
+    expect(vpc.availabilityZones).toEqual([
+      "ap-southeast-2a",
+      "ap-southeast-2b",
+    ]);
+    expect(vpc.isolatedSubnetIds).toEqual([
+      "subnet-isolated1",
+      "subnet-isolated2",
+    ]);
+    expect(vpc.internalSecurityGroupId).toBe("sg-internal");
+  });
+
+  it("treats the empty sentinel as no subnets", async () => {
+    const vpc = await createRuntimeClient(vpcParameters("empty")).getVpc();
+
+    expect(vpc.isolatedSubnetIds).toEqual([]);
+    expect(vpc.isolatedSubnetRouteTableIds).toEqual([]);
+    expect(vpc.privateSubnetIds).toHaveLength(2);
+  });
+
+  it("returns a typed Postgres database", async () => {
+    const db = await createRuntimeClient(
+      databaseParameters("my_db"),
+    ).getPostgresDatabase("my_db");
+
+    expect(db).toEqual({
+      hostname: "db.example.com",
+      port: 5432,
+      adminUser: "elsa_admin",
+      dsnNoPassword: "postgres://elsa_admin@db.example.com:5432",
+      adminPasswordSecretArn: expect.stringContaining("TestRdsSecret"),
+      securityGroupId: "sg-db",
+    });
+  });
+
+  it("returns the reader hostname of a database with readers", async () => {
+    const db = await createRuntimeClient({
+      ...databaseParameters("my_db"),
+      [parameterPath("databaseReaderHostname", INFRA_ID, "my_db")]:
+        "db-ro.example.com",
+    }).getPostgresDatabase("my_db");
+
+    expect(db.readerHostname).toBe("db-ro.example.com");
+  });
+
+  it("returns undefined for optional features that are not present", async () => {
+    const client = createRuntimeClient(databaseParameters("my_db"));
+
+    expect(await client.getEdgeDb("my_db")).toBeUndefined();
+    expect(await client.getNamespace()).toBeUndefined();
+    expect(await client.getDns()).toBeUndefined();
+  });
+
+  it("returns the secrets of bootstrapped roles", async () => {
+    const client = createRuntimeClient({
+      [parameterPath("databaseRoleSecretArns", INFRA_ID, "my_db")]:
+        JSON.stringify({ elsa_app: "arn:postgres-role" }),
+      [parameterPath("databaseEdgeDbRoleSecretArns", INFRA_ID, "my_db")]:
+        JSON.stringify({ elsa_app: "arn:edgedb-role" }),
+    });
+
+    expect(await client.getPostgresRoleSecretArn("my_db", "elsa_app")).toBe(
+      "arn:postgres-role",
+    );
+    expect(
+      await client.getEdgeDbRolePasswordSecretArn("my_db", "elsa_app"),
+    ).toBe("arn:edgedb-role");
+    await expect(
+      client.getPostgresRoleSecretArn("my_db", "elsa_other"),
+    ).rejects.toThrow(/not bootstrapped with a role elsa_other/);
+  });
+
+  it("returns the proxy and resource id of a database", async () => {
+    const client = createRuntimeClient({
+      [parameterPath("databaseResourceId", INFRA_ID, "my_db")]:
+        "db-ABCDEFGHIJKL",
+      [parameterPath("databaseProxyHostname", INFRA_ID, "my_db")]:
+        "proxy.example.com",
+      [parameterPath("databaseProxyDsnNoPassword", INFRA_ID, "my_db")]:
+        "postgres://proxy.example.com:5432",
+      [parameterPath("databaseProxyName", INFRA_ID, "my_db")]: "my-proxy",
+      [parameterPath("databaseProxyArn", INFRA_ID, "my_db")]:
+        "arn:aws:rds:ap-southeast-2:123456789012:db-proxy:prx-abc",
+      [parameterPath("databaseProxySecurityGroupId", INFRA_ID, "my_db")]:
+        "sg-proxy",
+    });
+
+    expect(await client.getPostgresResourceId("my_db")).toBe("db-ABCDEFGHIJKL");
+    expect(await client.getPostgresProxy("my_db")).toEqual({
+      hostname: "proxy.example.com",
+      dsnNoPassword: "postgres://proxy.example.com:5432",
+      proxyName: "my-proxy",
+      proxyArn: expect.stringContaining("db-proxy"),
+      securityGroupId: "sg-proxy",
+    });
+    expect(await client.getPostgresProxy("other_db")).toBeUndefined();
+    expect(await client.getPostgresResourceId("other_db")).toBeUndefined();
+  });
+
+  it("returns the backup vault and bastion if present", async () => {
+    const client = createRuntimeClient({
+      [parameterPath("backupVaultArn", INFRA_ID)]: "arn:backup-vault",
+      [parameterPath("bastionInstanceId", INFRA_ID)]: "i-0123456789abcdef0",
+    });
+
+    expect(await client.getBackupVaultArn()).toBe("arn:backup-vault");
+    expect(await client.getBastionInstanceId()).toBe("i-0123456789abcdef0");
+    expect(
+      await createRuntimeClient({}).getBastionInstanceId(),
+    ).toBeUndefined();
+  });
+
+  it("can read every parameter in the manifest", async () => {
+    const keys = Object.keys(PARAMETER_MANIFEST) as ParameterKey[];
+    const paths = keys.map((k) => parameterPath(k, INFRA_ID, "my_db"));
+
+    const read = new Set<string>();
+    const client = new InfrastructureRuntimeClient(INFRA_ID, async (name) => {
+      read.add(name);
+      // values that parse as a port, a list and a role secret map
+      return name.endsWith("roleSecretArns") ? '{"elsa_app":"arn"}' : "5432";
+    });
+
+    await client.getVpc();
+    await client.getSecretsPrefix();
+    await client.getTempBucket();
+    await client.getNamespace();
+    await client.getDns();
+    await client.getBackupVaultArn();
+    await client.getBastionInstanceId();
+    await client.getPostgresDatabase("my_db");
+    await client.getPostgresResourceId("my_db");
+    await client.getPostgresProxy("my_db");
+    await client.getEdgeDb("my_db");
+    await client.getPostgresRoleSecretArn("my_db", "elsa_app");
+    await client.getEdgeDbRolePasswordSecretArn("my_db", "elsa_app");
+
+    // the DSN with the password is deliberately not given out - the admin secret
+    // should be used instead
+    expect(paths.filter((p) => !read.has(p))).toEqual([
+      parameterPath("databaseDsnWithPassword", INFRA_ID, "my_db"),
+    ]);
+  });
+
+  it("fails when a required parameter is missing", async () => {
+    await expect(
+      createRuntimeClient({}).getPostgresDatabase("my_db"),
+    ).rejects.toThrow("/Infra/Database/my_db/hostname does not exist");
+  });
+});
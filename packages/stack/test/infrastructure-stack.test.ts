@@ -0,0 +1,2314 @@
+import { Duration } from "aws-cdk-lib";
+import { Schedule } from "aws-cdk-lib/aws-events";
+import { CpuArchitecture } from "aws-cdk-lib/aws-ecs";
+import { InstanceClass, InstanceSize, InstanceType } from "aws-cdk-lib/aws-ec2";
+import { Annotations, Match, Template } from "aws-cdk-lib/assertions";
+import {
+  InfrastructureParameterManifest,
+  EdgeDbCommon,
+  InfrastructureParameterType,
+  PostgresCommon,
+} from "../infrastructure-stack";
+import {
+  backupVaultArnParameterName,
+  bastionInstanceIdParameterName,
+  databaseAdminPasswordSecretArnParameterName,
+  databaseAdminUserParameterName,
+  databaseDsnNoPasswordParameterName,
+  databaseEdgeDbAdminPasswordSecretArnParameterName,
+  databaseEdgeDbDsnNoPasswordOrDatabaseParameterName,
+  databaseEdgeDbRoleSecretArnsParameterName,
+  databaseRoleSecretArnsParameterName,
+  databaseEdgeDbSecurityGroupIdParameterName,
+  databaseHostnameParameterName,
+  databasePortParameterName,
+  databaseProxyDsnNoPasswordParameterName,
+  databaseReaderHostnameParameterName,
+  databaseProxyHostnameParameterName,
+  databaseProxySecurityGroupIdParameterName,
+  databaseResourceIdParameterName,
+  databaseSecurityGroupIdParameterName,
+  namespaceArnParameterName,
+  namespaceIdParameterName,
+  namespaceNameParameterName,
+  secretsManagerSecretsPrefixParameterName,
+  vpcAvailabilityZonesParameterName,
+  vpcIdParameterName,
+  vpcInternalSecurityGroupIdParameterName,
+  vpcIsolatedSubnetIdsParameterName,
+  vpcIsolatedSubnetRouteTableIdsParameterName,
+  vpcPrivateSubnetIdsParameterName,
+  vpcPrivateSubnetRouteTableIdsParameterName,
+  vpcPublicSubnetIdsParameterName,
+  vpcPublicSubnetRouteTableIdsParameterName,
+  vpcSecurityGroupIdParameterName,
+} from "../parameter-names";
+import {
+  createTestInfrastructureStack,
+  TEST_HOSTED_ZONE_NAME,
+  TEST_VPC_NAME,
+} from "./test-context";
+
+const STACK_ID = "TestInfrastructureStack";
+
+const DB_NAME = "test_db";
+
+function database(overrides: Partial<PostgresCommon> = {}): PostgresCommon {
+  return {
+    postgresType: "postgres-serverless-2",
+    name: DB_NAME,
+    adminUser: "test_admin",
+    ...overrides,
+  };
+}
+
+function expectParameter(
+  template: Template,
+  name: string,
+  type: "String" | "StringList" = "String",
+) {
+  template.hasResourceProperties("AWS::SSM::Parameter", {
+    Name: name,
+    Type: type,
+  });
+}
+
+function expectNoParameter(template: Template, name: string) {
+  expect(
+    template.findResources("AWS::SSM::Parameter", {
+      Properties: { Name: name },
+    }),
+  ).toEqual({});
+}
+
+describe("network", () => {
+  it("creates a new VPC if no VPC name is given", () => {
+    const template = Template.fromStack(createTestInfrastructureStack());
+
+    template.resourceCountIs("AWS::EC2::VPC", 1);
+    template.resourceCountIs("AWS::EC2::NatGateway", 1);
+    // public, private and isolated subnets in each of the 3 AZs
+    template.resourceCountIs("AWS::EC2::Subnet", 9);
+  });
+
+  it("creates a new VPC fitting the given IP plan", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        network: {
+          cidr: "10.20.0.0/20",
+          maxAzs: 2,
+          natGateways: 2,
+          ingressSubnetCidrMask: 26,
+          applicationSubnetCidrMask: 23,
+          databaseSubnetCidrMask: 25,
+        },
+      }),
+    );
+
+    template.hasResourceProperties("AWS::EC2::VPC", {
+      CidrBlock: "10.20.0.0/20",
+    });
+    template.resourceCountIs("AWS::EC2::NatGateway", 2);
+    template.resourceCountIs("AWS::EC2::Subnet", 6);
+
+    const cidrs = Object.values(template.findResources("AWS::EC2::Subnet")).map(
+      (subnet) => subnet.Properties.CidrBlock,
+    );
+    expect(cidrs.filter((c) => c.endsWith("/26"))).toHaveLength(2);
+    expect(cidrs.filter((c) => c.endsWith("/23"))).toHaveLength(2);
+    expect(cidrs.filter((c) => c.endsWith("/25"))).toHaveLength(2);
+  });
+
+  it("creates a new VPC with no NAT", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        network: { natGateways: 0 },
+      }),
+    );
+
+    template.resourceCountIs("AWS::EC2::NatGateway", 0);
+    template.resourceCountIs("AWS::EC2::Instance", 0);
+    template.resourceCountIs("AWS::EC2::Subnet", 9);
+    template.resourceCountIs("AWS::EC2::Route", 3);
+  });
+
+  it("creates a new VPC with NAT instances", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        network: {
+          natInstanceType: InstanceType.of(
+            InstanceClass.BURSTABLE3,
+            InstanceSize.NANO,
+          ),
+        },
+      }),
+    );
+
+    template.resourceCountIs("AWS::EC2::NatGateway", 0);
+    template.resourceCountIs("AWS::EC2::Instance", 1);
+    template.hasResourceProperties("AWS::EC2::Instance", {
+      InstanceType: "t3.nano",
+      SourceDestCheck: false,
+    });
+    // only traffic from the VPC is let in to the NAT instance
+    template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+      SecurityGroupIngress: [
+        Match.objectLike({
+          CidrIp: { "Fn::GetAtt": [Match.anyValue(), "CidrBlock"] },
+          IpProtocol: "-1",
+        }),
+      ],
+    });
+  });
+
+  it("creates interface endpoints usable from the VPC security group", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        network: {
+          natGateways: 0,
+          interfaceEndpoints: ["secretsmanager", "ssm", "sts", "kms", "kms"],
+        },
+        databases: [database({ edgeDb: { version: "3.4" } })],
+        bastion: {},
+      }),
+    );
+
+    // secrets manager, ssm (and its 2 messages services), sts and kms
+    template.resourcePropertiesCountIs(
+      "AWS::EC2::VPCEndpoint",
+      { VpcEndpointType: "Interface" },
+      6,
+    );
+    template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+      ServiceName: "com.amazonaws.ap-southeast-2.secretsmanager",
+      PrivateDnsEnabled: true,
+    });
+
+    // the endpoints are not open to the whole VPC - only to the VPC security group,
+    // the databases, the EdgeDb and the bastion
+    const endpointIngress = Object.values(
+      template.findResources("AWS::EC2::SecurityGroupIngress", {
+        Properties: { FromPort: 443, ToPort: 443 },
+      }),
+    );
+    expect(
+      endpointIngress
+        .map((i) => i.Properties.SourceSecurityGroupId["Fn::GetAtt"][0])
+        .sort(),
+    ).toEqual([
+      expect.stringMatching(/^Bastion/),
+      expect.stringMatching(/^SecurityGroup/),
+      expect.stringMatching(/EdgeDb.*MembershipSecurityGroup/),
+      "TestDbMembershipSecurityGroupB4776D4E",
+    ]);
+  });
+
+  it("opens the interface endpoints to the bootstrap and rotation of databases", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        network: { natGateways: 0, interfaceEndpoints: ["secretsmanager"] },
+        databases: [
+          database({
+            bootstrap: { roles: [{ name: "elsa_app" }] },
+            rotateAdminPasswordAfter: Duration.days(30),
+          }),
+          database({
+            name: "edge_db",
+            edgeDb: {
+              version: "3.4",
+              bootstrap: { roles: ["elsa_app"] },
+              rotateSuperUserPasswordAfter: Duration.days(30),
+            },
+          }),
+        ],
+      }),
+    );
+
+    const endpointIngress = Object.values(
+      template.findResources("AWS::EC2::SecurityGroupIngress", {
+        Properties: { FromPort: 443, ToPort: 443 },
+      }),
+    );
+    expect(
+      endpointIngress
+        .map((i) => i.Properties.SourceSecurityGroupId["Fn::GetAtt"][0])
+        .sort(),
+    ).toEqual([
+      expect.stringMatching(/^EdgeDbEdgeDbEdgeDbBootstrapRunTaskEgress/),
+      expect.stringMatching(/^EdgeDbEdgeDbEdgeDbRotationEgress/),
+      expect.stringMatching(/^EdgeDbEdgeDbEdgeDbServiceMembership/),
+      expect.stringMatching(/^EdgeDbMembershipSecurityGroup/),
+      expect.stringMatching(/^SecurityGroup/),
+      "TestDbBootstrapRunTaskEgressSecurityGroupF06E685D",
+      "TestDbMembershipSecurityGroupB4776D4E",
+      "TestDbRotationEgressSecurityGroupE072B765",
+    ]);
+  });
+
+  it("refuses new VPC settings for an existing VPC", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        network: { vpcNameOrDefaultOrUndefined: TEST_VPC_NAME, maxAzs: 2 },
+      }),
+    ).toThrow(/maxAzs only apply when constructing a new VPC/);
+  });
+
+  it("exports all the VPC values of a new VPC", () => {
+    const template = Template.fromStack(createTestInfrastructureStack());
+
+    expectParameter(template, vpcIdParameterName(STACK_ID));
+    expectParameter(template, vpcSecurityGroupIdParameterName(STACK_ID));
+    expectParameter(
+      template,
+      vpcInternalSecurityGroupIdParameterName(STACK_ID),
+    );
+
+    for (const n of [
+      vpcAvailabilityZonesParameterName,
+      vpcPublicSubnetIdsParameterName,
+      vpcPublicSubnetRouteTableIdsParameterName,
+      vpcPrivateSubnetIdsParameterName,
+      vpcPrivateSubnetRouteTableIdsParameterName,
+      vpcIsolatedSubnetIdsParameterName,
+      vpcIsolatedSubnetRouteTableIdsParameterName,
+    ])
+      expectParameter(template, n(STACK_ID), "StringList");
+
+    // a new VPC *does* have isolated subnets so we should not be using the "empty" marker
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: vpcIsolatedSubnetIdsParameterName(STACK_ID),
+      Value: Match.not("empty"),
+    });
+  });
+
+  it("re-uses an existing VPC looked up by name", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        network: { vpcNameOrDefaultOrUndefined: TEST_VPC_NAME },
+      }),
+    );
+
+    template.resourceCountIs("AWS::EC2::VPC", 0);
+    template.resourceCountIs("AWS::EC2::Subnet", 0);
+
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: vpcIdParameterName(STACK_ID),
+      Value: "vpc-0123456789abcdef0",
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: vpcPrivateSubnetIdsParameterName(STACK_ID),
+      Value: "subnet-private1,subnet-private2",
+    });
+  });
+
+  it("marks missing isolated subnets of an existing VPC as empty", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        network: { vpcNameOrDefaultOrUndefined: TEST_VPC_NAME },
+      }),
+    );
+
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: vpcIsolatedSubnetIdsParameterName(STACK_ID),
+      Type: "StringList",
+      Value: "empty",
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: vpcIsolatedSubnetRouteTableIdsParameterName(STACK_ID),
+      Type: "StringList",
+      Value: "empty",
+    });
+  });
+});
+
+describe("shared services", () => {
+  it("always exports the secrets prefix and temp bucket", () => {
+    const template = Template.fromStack(createTestInfrastructureStack());
+
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: secretsManagerSecretsPrefixParameterName(STACK_ID),
+      Value: "Test",
+    });
+    expectParameter(template, `/${STACK_ID}/TempPrivateBucket/bucketArn`);
+    expectParameter(template, `/${STACK_ID}/TempPrivateBucket/bucketName`);
+    template.resourceCountIs("AWS::S3::Bucket", 1);
+  });
+
+  it("does not create a namespace if not asked", () => {
+    const template = Template.fromStack(createTestInfrastructureStack());
+
+    template.resourceCountIs("AWS::ServiceDiscovery::HttpNamespace", 0);
+    expectNoParameter(template, namespaceNameParameterName(STACK_ID));
+  });
+
+  it("creates and exports a namespace", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({ ns: { name: "test-ns" } }),
+    );
+
+    template.hasResourceProperties("AWS::ServiceDiscovery::HttpNamespace", {
+      Name: "test-ns",
+    });
+    expectParameter(template, namespaceNameParameterName(STACK_ID));
+    expectParameter(template, namespaceIdParameterName(STACK_ID));
+    expectParameter(template, namespaceArnParameterName(STACK_ID));
+  });
+
+  it("does not create a certificate if no DNS is given", () => {
+    const template = Template.fromStack(createTestInfrastructureStack());
+
+    template.resourceCountIs("AWS::CertificateManager::Certificate", 0);
+    expectNoParameter(template, `/${STACK_ID}/Certificate/certificateArn`);
+  });
+
+  it("creates a wildcard certificate and exports the DNS details", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        dns: { hostedZoneName: TEST_HOSTED_ZONE_NAME },
+      }),
+    );
+
+    template.hasResourceProperties("AWS::CertificateManager::Certificate", {
+      DomainName: `*.${TEST_HOSTED_ZONE_NAME}`,
+      SubjectAlternativeNames: [TEST_HOSTED_ZONE_NAME],
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: `/${STACK_ID}/HostedZone/zoneName`,
+      Value: TEST_HOSTED_ZONE_NAME,
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: `/${STACK_ID}/HostedZone/hostedZoneId`,
+      Value: "Z0123456789ABCDEFGHIJ",
+    });
+    expectParameter(template, `/${STACK_ID}/Certificate/certificateArn`);
+  });
+});
+
+describe("databases", () => {
+  it("creates a postgres instance", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ postgresType: "postgres-instance" })],
+      }),
+    );
+
+    template.resourceCountIs("AWS::RDS::DBCluster", 0);
+    template.hasResource("AWS::RDS::DBInstance", {
+      DeletionPolicy: "Snapshot",
+      Properties: {
+        DBName: DB_NAME,
+        Engine: "postgres",
+        StorageEncrypted: true,
+        PubliclyAccessible: false,
+      },
+    });
+  });
+
+  it("creates a serverless v2 postgres cluster", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ postgresType: "postgres-serverless-2" })],
+      }),
+    );
+
+    template.hasResource("AWS::RDS::DBCluster", {
+      DeletionPolicy: "Snapshot",
+      Properties: {
+        DatabaseName: DB_NAME,
+        Engine: "aurora-postgresql",
+        ServerlessV2ScalingConfiguration: {
+          MinCapacity: 0.5,
+          MaxCapacity: 4,
+        },
+      },
+    });
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      DBInstanceClass: "db.serverless",
+    });
+  });
+
+  it("uses the default engine versions", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({ name: "instance_db", postgresType: "postgres-instance" }),
+          database({ name: "serverless_db" }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      Engine: "postgres",
+      EngineVersion: "14",
+    });
+    template.hasResourceProperties("AWS::RDS::DBCluster", {
+      EngineVersion: "15.4",
+    });
+    template.resourceCountIs("AWS::RDS::DBParameterGroup", 0);
+  });
+
+  it("uses the given engine versions and parameters", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            name: "instance_db",
+            postgresType: "postgres-instance",
+            engineVersion: "16.1",
+            parameters: { log_min_duration_statement: "1000" },
+          }),
+          database({
+            name: "serverless_db",
+            engineVersion: "16.1",
+            parameters: { log_min_duration_statement: "500" },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      Engine: "postgres",
+      EngineVersion: "16.1",
+      DBParameterGroupName: Match.anyValue(),
+    });
+    template.hasResourceProperties("AWS::RDS::DBParameterGroup", {
+      Family: "postgres16",
+      Parameters: { log_min_duration_statement: "1000" },
+    });
+    template.hasResourceProperties("AWS::RDS::DBCluster", {
+      EngineVersion: "16.1",
+      DBClusterParameterGroupName: Match.anyValue(),
+    });
+    template.hasResourceProperties("AWS::RDS::DBClusterParameterGroup", {
+      Family: "aurora-postgresql16",
+      Parameters: { log_min_duration_statement: "500" },
+    });
+  });
+
+  it.each([
+    ["postgres-instance", "10", /older than the oldest supported/],
+    ["postgres-instance", "latest", /must be a major version/],
+    [
+      "postgres-serverless-2",
+      "12.9",
+      /not a major version that supports serverless/,
+    ],
+    ["postgres-serverless-2", "15", /must be at least 15.2/],
+    ["postgres-serverless-2", "14.1", /must be at least 14.3/],
+  ] as const)(
+    "refuses %s with engine version %s",
+    (postgresType, engineVersion, error) => {
+      expect(() =>
+        createTestInfrastructureStack({
+          databases: [database({ postgresType, engineVersion })],
+        }),
+      ).toThrow(error);
+    },
+  );
+
+  it("protects production databases", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({ postgresType: "postgres-instance" }),
+          database({ postgresType: "postgres-serverless-2", name: "other_db" }),
+        ],
+      }),
+    );
+
+    template.hasResource("AWS::RDS::DBInstance", {
+      DeletionPolicy: "Snapshot",
+      Properties: {
+        DeletionProtection: true,
+        BackupRetentionPeriod: 7,
+      },
+    });
+    template.hasResource("AWS::RDS::DBCluster", {
+      DeletionPolicy: "Snapshot",
+      Properties: {
+        DeletionProtection: true,
+        BackupRetentionPeriod: 7,
+      },
+    });
+  });
+
+  it("defaults development databases to destroy on remove", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        isDevelopment: true,
+        databases: [
+          database({ postgresType: "postgres-instance" }),
+          database({ postgresType: "postgres-serverless-2", name: "other_db" }),
+        ],
+      }),
+    );
+
+    template.hasResource("AWS::RDS::DBInstance", {
+      DeletionPolicy: "Delete",
+      Properties: {
+        DeletionProtection: false,
+        BackupRetentionPeriod: 0,
+      },
+    });
+    template.hasResource("AWS::RDS::DBCluster", {
+      DeletionPolicy: "Delete",
+      Properties: {
+        DeletionProtection: false,
+        BackupRetentionPeriod: 1,
+      },
+    });
+  });
+
+  it("keeps development databases if asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        isDevelopment: true,
+        databases: [
+          database({
+            postgresType: "postgres-instance",
+            destroyOnRemove: false,
+          }),
+        ],
+      }),
+    );
+
+    template.hasResource("AWS::RDS::DBInstance", {
+      DeletionPolicy: "Snapshot",
+      Properties: {
+        DeletionProtection: false,
+        BackupRetentionPeriod: 1,
+      },
+    });
+  });
+
+  it.each([
+    [{ destroyOnRemove: true }, /destroyOnRemove/],
+    [{ makePubliclyReachable: true }, /makePubliclyReachable/],
+    [
+      {
+        edgeDb: {
+          version: "3.4",
+          makePubliclyReachable: { urlPrefix: "edge" },
+        },
+      },
+      /edgeDb.makePubliclyReachable without allowedCidrs/,
+    ],
+  ])("refuses development only settings %j in production", (settings, err) => {
+    expect(() =>
+      createTestInfrastructureStack({
+        dns: { hostedZoneName: TEST_HOSTED_ZONE_NAME },
+        databases: [database(settings)],
+      }),
+    ).toThrow(err);
+  });
+
+  it("destroys databases on remove if asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        isDevelopment: true,
+        databases: [
+          database({
+            postgresType: "postgres-instance",
+            destroyOnRemove: true,
+          }),
+        ],
+      }),
+    );
+
+    template.hasResource("AWS::RDS::DBInstance", {
+      DeletionPolicy: "Delete",
+      Properties: {
+        BackupRetentionPeriod: 0,
+      },
+    });
+  });
+
+  it("opens the database to the internet only if asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        isDevelopment: true,
+        databases: [
+          database({
+            postgresType: "postgres-instance",
+            makePubliclyReachable: true,
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      PubliclyAccessible: true,
+    });
+    template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+      CidrIp: "0.0.0.0/0",
+    });
+  });
+
+  it("exports all the postgres values", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({ databases: [database()] }),
+    );
+
+    for (const n of [
+      databaseDsnNoPasswordParameterName,
+      databaseHostnameParameterName,
+      databasePortParameterName,
+      databaseAdminPasswordSecretArnParameterName,
+      databaseSecurityGroupIdParameterName,
+    ])
+      expectParameter(template, n(STACK_ID, DB_NAME));
+
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databaseAdminUserParameterName(STACK_ID, DB_NAME),
+      Value: "test_admin",
+    });
+    template.hasResourceProperties("AWS::SecretsManager::Secret", {
+      Name: "TestTestDbRds",
+    });
+  });
+});
+
+describe("postgres bootstrap", () => {
+  it("does not bootstrap unless asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({ databases: [database()] }),
+    );
+
+    template.resourceCountIs("Custom::RunTaskOnDeploy", 0);
+    expectNoParameter(
+      template,
+      databaseRoleSecretArnsParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("bootstraps databases, extensions and roles if asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            bootstrap: {
+              databases: ["elsa_extra"],
+              extensions: ["pg_trgm", "uuid-ossp"],
+              roles: [
+                { name: "elsa_app", databases: [DB_NAME, "elsa_extra"] },
+                { name: "elsa_reader", readOnly: true },
+              ],
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::SecretsManager::Secret", {
+      Name: "TestTestDbRdsElsaApp",
+    });
+    template.hasResourceProperties("AWS::SecretsManager::Secret", {
+      Name: "TestTestDbRdsElsaReader",
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: `${STACK_ID}-TestDb-postgres-bootstrap`,
+      ContainerDefinitions: [
+        Match.objectLike({
+          Command: [
+            Match.stringLikeRegexp(
+              [
+                `CREATE DATABASE "elsa_extra"`,
+                `CREATE ROLE %I WITH LOGIN PASSWORD %L', 'elsa_app'`,
+                `connect "${DB_NAME}"`,
+                `CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`,
+                `GRANT SELECT ON ALL TABLES IN SCHEMA public TO "elsa_reader"`,
+                `connect "elsa_extra"`,
+                `CREATE EXTENSION IF NOT EXISTS "pg_trgm"`,
+                `GRANT CONNECT, TEMPORARY ON DATABASE "elsa_extra" TO "elsa_app"`,
+              ].join("(.|\\n)*"),
+            ),
+          ],
+          Secrets: Match.arrayWith([
+            Match.objectLike({ Name: "ROLE_0_PASSWORD" }),
+            Match.objectLike({ Name: "ROLE_1_PASSWORD" }),
+          ]),
+        }),
+      ],
+    });
+    template.resourceCountIs("Custom::RunTaskOnDeploy", 1);
+
+    expectParameter(
+      template,
+      databaseRoleSecretArnsParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("waits for every bootstrap task using one shared provider", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({ bootstrap: { extensions: ["pg_trgm"] } }),
+          database({
+            name: "other_db",
+            bootstrap: { extensions: ["pg_trgm"] },
+          }),
+        ],
+      }),
+    );
+
+    template.resourceCountIs("Custom::RunTaskOnDeploy", 2);
+    // the provider polls for the tasks to stop
+    template.resourceCountIs("AWS::StepFunctions::StateMachine", 1);
+    template.resourceCountIs("AWS::ECS::Cluster", 1);
+    template.hasResourceProperties("AWS::Lambda::Function", {
+      Handler: "index.isComplete",
+    });
+    // but each database has its own task definition family
+    for (const family of ["TestDb", "OtherDb"])
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        Family: `${STACK_ID}-${family}-postgres-bootstrap`,
+      });
+  });
+
+  it("runs the bootstrap from a private ECR registry on the chosen architecture", () => {
+    const imageUri =
+      "123456789012.dkr.ecr.ap-southeast-2.amazonaws.com/docker-hub/library/postgres:16-alpine";
+
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            bootstrap: {
+              extensions: ["pg_trgm"],
+              imageUri: imageUri,
+              cpuArchitecture: CpuArchitecture.X86_64,
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: `${STACK_ID}-TestDb-postgres-bootstrap`,
+      RuntimePlatform: { CpuArchitecture: "X86_64" },
+      ContainerDefinitions: [Match.objectLike({ Image: imageUri })],
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: ["ecr:CreateRepository", "ecr:BatchImportUpstreamImage"],
+          }),
+        ]),
+      },
+    });
+    // the image is pulled through the ECR endpoints
+    template.resourcePropertiesCountIs(
+      "AWS::EC2::VPCEndpoint",
+      { VpcEndpointType: "Interface" },
+      3,
+    );
+  });
+
+  it("refuses roles that differ only in case", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            bootstrap: { roles: [{ name: "App" }, { name: "app" }] },
+          }),
+        ],
+      }),
+    ).toThrow(/role app is too similar to role App/);
+  });
+
+  it("refuses grants to databases that are not created", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            bootstrap: {
+              roles: [{ name: "elsa_app", databases: ["elsa_missing"] }],
+            },
+          }),
+        ],
+      }),
+    ).toThrow(/elsa_missing which is not created by the bootstrap/);
+  });
+});
+
+describe("edgedb", () => {
+  it("does not create EdgeDb unless asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({ databases: [database()] }),
+    );
+
+    template.resourceCountIs("AWS::ECS::Service", 0);
+    expectNoParameter(
+      template,
+      databaseEdgeDbSecurityGroupIdParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("creates a private EdgeDb in front of the database", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ edgeDb: { version: "3.4" } })],
+      }),
+    );
+
+    template.resourceCountIs("AWS::ECS::Service", 1);
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::LoadBalancer", 1);
+    template.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::LoadBalancer",
+      {
+        Scheme: "internal",
+        Type: "network",
+      },
+    );
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Image: "edgedb/edgedb:3.4",
+          Environment: Match.arrayWith([
+            { Name: "EDGEDB_DOCKER_LOG_LEVEL", Value: "info" },
+          ]),
+        }),
+      ],
+    });
+    template.hasResourceProperties("AWS::Logs::LogGroup", {
+      RetentionInDays: 365,
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Environment: Match.not(
+            Match.arrayWith([
+              { Name: "EDGEDB_SERVER_ADMIN_UI", Value: "enabled" },
+            ]),
+          ),
+        }),
+      ],
+    });
+    template.resourceCountIs("AWS::Route53::RecordSet", 0);
+
+    expectParameter(
+      template,
+      databaseEdgeDbDsnNoPasswordOrDatabaseParameterName(STACK_ID, DB_NAME),
+    );
+    expectParameter(
+      template,
+      databaseEdgeDbAdminPasswordSecretArnParameterName(STACK_ID, DB_NAME),
+    );
+    expectParameter(
+      template,
+      databaseEdgeDbSecurityGroupIdParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("creates a public EdgeDb UI if asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        isDevelopment: true,
+        dns: { hostedZoneName: TEST_HOSTED_ZONE_NAME },
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              makePubliclyReachable: { urlPrefix: "edge" },
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::LoadBalancer", 2);
+    template.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::LoadBalancer",
+      {
+        Scheme: "internet-facing",
+      },
+    );
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 443,
+      Protocol: "TLS",
+    });
+    template.hasResourceProperties("AWS::Route53::RecordSet", {
+      Name: `edge.${TEST_HOSTED_ZONE_NAME}.`,
+      Type: "A",
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Environment: Match.arrayWith([
+            { Name: "EDGEDB_DOCKER_LOG_LEVEL", Value: "debug" },
+            { Name: "EDGEDB_SERVER_ADMIN_UI", Value: "enabled" },
+          ]),
+        }),
+      ],
+    });
+  });
+
+  it("restricts a public EdgeDb UI to the allow-list on its port", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        dns: { hostedZoneName: TEST_HOSTED_ZONE_NAME },
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              makePubliclyReachable: {
+                urlPrefix: "edge",
+                uiPort: 8443,
+                allowedCidrs: ["203.0.113.0/24", "2001:db8::/32"],
+                allowedPrefixListId: "pl-0123456789abcdef0",
+              },
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 8443,
+      Protocol: "TLS",
+    });
+
+    const ingress = Object.values(
+      template.findResources("AWS::EC2::SecurityGroup", {
+        Properties: {
+          GroupDescription: Match.stringLikeRegexp("public SSL UI"),
+        },
+      }),
+    )[0].Properties.SecurityGroupIngress;
+
+    expect(ingress).toEqual([
+      expect.objectContaining({ CidrIp: "203.0.113.0/24", FromPort: 8443 }),
+      expect.objectContaining({ CidrIpv6: "2001:db8::/32", FromPort: 8443 }),
+    ]);
+    // prefix list rules are not inline in the security group
+    template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+      SourcePrefixListId: "pl-0123456789abcdef0",
+      FromPort: 8443,
+      ToPort: 8443,
+    });
+  });
+
+  it("creates a private EdgeDb UI if asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        dns: { hostedZoneName: TEST_HOSTED_ZONE_NAME },
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              privateUi: { urlPrefix: "edge" },
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::LoadBalancer", 2);
+    template.allResourcesProperties(
+      "AWS::ElasticLoadBalancingV2::LoadBalancer",
+      {
+        Scheme: "internal",
+      },
+    );
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 443,
+      Protocol: "TLS",
+    });
+    // a private zone of just the UI name - so no other names are shadowed
+    template.hasResourceProperties("AWS::Route53::HostedZone", {
+      Name: `edge.${TEST_HOSTED_ZONE_NAME}.`,
+      VPCs: [Match.objectLike({ VPCId: Match.anyValue() })],
+    });
+    template.hasResourceProperties("AWS::Route53::RecordSet", {
+      Name: `edge.${TEST_HOSTED_ZONE_NAME}.`,
+      Type: "A",
+    });
+    template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+      GroupDescription: Match.stringLikeRegexp("private SSL UI"),
+      SecurityGroupIngress: [
+        Match.objectLike({
+          CidrIp: { "Fn::GetAtt": [Match.anyValue(), "CidrBlock"] },
+          FromPort: 443,
+        }),
+      ],
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Environment: Match.arrayWith([
+            { Name: "EDGEDB_SERVER_ADMIN_UI", Value: "enabled" },
+          ]),
+        }),
+      ],
+    });
+  });
+
+  it("refuses both a public and private EdgeDb UI", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        isDevelopment: true,
+        dns: { hostedZoneName: TEST_HOSTED_ZONE_NAME },
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              makePubliclyReachable: { urlPrefix: "edge" },
+              privateUi: { urlPrefix: "edge-private" },
+            },
+          }),
+        ],
+      }),
+    ).toThrow(/both a public/);
+  });
+
+  it("bootstraps databases and roles if asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              bootstrap: { databases: ["elsa"], roles: ["elsa_app"] },
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::SecretsManager::Secret", {
+      Name: "TestTestDbEdgeDbElsaApp",
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "edge-db-bootstrap-family",
+      ContainerDefinitions: [
+        Match.objectLike({
+          Image: "edgedb/edgedb:3.4",
+          Command: [
+            Match.stringLikeRegexp(
+              "create database elsa(.|\\n)*create role elsa_app",
+            ),
+          ],
+          Secrets: Match.arrayWith([
+            Match.objectLike({ Name: "EDGEDB_PASSWORD" }),
+            Match.objectLike({ Name: "ROLE_0_PASSWORD" }),
+          ]),
+        }),
+      ],
+    });
+    template.resourceCountIs("Custom::RunTaskOnDeploy", 1);
+
+    expectParameter(
+      template,
+      databaseEdgeDbRoleSecretArnsParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("refuses EdgeDb bootstrap roles that differ only in case", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              bootstrap: { roles: ["elsa_app", "Elsa_App"] },
+            },
+          }),
+        ],
+      }),
+    ).toThrow(/role Elsa_App is too similar to role elsa_app/);
+  });
+
+  it("bootstraps branches rather than databases from EdgeDb 5", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            edgeDb: { version: "5.2", bootstrap: { databases: ["elsa"] } },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "edge-db-bootstrap-family",
+      ContainerDefinitions: [
+        Match.objectLike({
+          Command: [Match.stringLikeRegexp("create empty branch elsa")],
+        }),
+      ],
+    });
+    expectNoParameter(
+      template,
+      databaseEdgeDbRoleSecretArnsParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("refuses bootstrap names that are not simple identifiers", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            edgeDb: { version: "3.4", bootstrap: { roles: ["elsa-app"] } },
+          }),
+        ],
+      }),
+    ).toThrow(/only letters, digits and underscores/);
+  });
+
+  it("refuses a public EdgeDb UI without DNS", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        isDevelopment: true,
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              makePubliclyReachable: { urlPrefix: "edge" },
+            },
+          }),
+        ],
+      }),
+    ).toThrow(/certificate and hosted zone/);
+  });
+
+  it("runs Gel with its own environment variables and DSN scheme", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        isDevelopment: true,
+        dns: { hostedZoneName: TEST_HOSTED_ZONE_NAME },
+        databases: [
+          database({
+            edgeDb: {
+              flavour: "gel",
+              version: "6.1",
+              makePubliclyReachable: { urlPrefix: "gel" },
+              bootstrap: { roles: ["elsa_app"] },
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "edge-db-service-family",
+      ContainerDefinitions: [
+        Match.objectLike({
+          Image: "geldata/gel:6.1",
+          Environment: Match.arrayWith([
+            { Name: "GEL_DOCKER_LOG_LEVEL", Value: "debug" },
+            { Name: "GEL_SERVER_USER", Value: "elsa_superuser" },
+            { Name: "GEL_SERVER_ADMIN_UI", Value: "enabled" },
+          ]),
+          Secrets: [Match.objectLike({ Name: "GEL_SERVER_PASSWORD" })],
+        }),
+      ],
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "edge-db-bootstrap-family",
+      ContainerDefinitions: [
+        Match.objectLike({
+          Command: [Match.stringLikeRegexp("gel query")],
+          Secrets: Match.arrayWith([
+            Match.objectLike({ Name: "GEL_PASSWORD" }),
+          ]),
+        }),
+      ],
+    });
+
+    // the parameter is published at the same path as for EdgeDb
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databaseEdgeDbDsnNoPasswordOrDatabaseParameterName(
+        STACK_ID,
+        DB_NAME,
+      ),
+      Value: {
+        "Fn::Join": ["", Match.arrayWith(["gel://elsa_superuser@"])],
+      },
+    });
+  });
+
+  it("runs the EdgeDb image from Docker Hub on ARM64 by default", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ edgeDb: { version: "3.4" } })],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "edge-db-service-family",
+      RuntimePlatform: { CpuArchitecture: "ARM64" },
+      ContainerDefinitions: [Match.objectLike({ Image: "edgedb/edgedb:3.4" })],
+    });
+    template.resourcePropertiesCountIs(
+      "AWS::EC2::VPCEndpoint",
+      { VpcEndpointType: "Interface" },
+      0,
+    );
+  });
+
+  it("runs a pinned EdgeDb image from a private ECR registry", () => {
+    const repository =
+      "123456789012.dkr.ecr.ap-southeast-2.amazonaws.com/docker-hub/edgedb/edgedb";
+    const digest = `sha256:${"a".repeat(64)}`;
+
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              imageRepository: repository,
+              imageDigest: digest,
+              cpuArchitecture: CpuArchitecture.X86_64,
+              bootstrap: { roles: ["elsa_app"] },
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "edge-db-service-family",
+      RuntimePlatform: { CpuArchitecture: "X86_64" },
+      ContainerDefinitions: [
+        Match.objectLike({ Image: `${repository}:3.4@${digest}` }),
+      ],
+    });
+    // the bootstrap runs the same image so must be on the same architecture
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "edge-db-bootstrap-family",
+      RuntimePlatform: { CpuArchitecture: "X86_64" },
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: ["ecr:CreateRepository", "ecr:BatchImportUpstreamImage"],
+          }),
+        ]),
+      },
+    });
+    template.resourcePropertiesCountIs(
+      "AWS::EC2::VPCEndpoint",
+      { VpcEndpointType: "Interface" },
+      3,
+    );
+    // image layers are pulled from S3
+    template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+      VpcEndpointType: "Gateway",
+      ServiceName: Match.objectLike({
+        "Fn::Join": ["", Match.arrayWith([".s3"])],
+      }),
+    });
+  });
+
+  it("refuses EdgeDb image settings that cannot be used together", () => {
+    const edgeDbStack = (edgeDb: Partial<EdgeDbCommon>) =>
+      createTestInfrastructureStack({
+        databases: [database({ edgeDb: { version: "3.4", ...edgeDb } })],
+      });
+
+    expect(() =>
+      edgeDbStack({
+        imageUri: "example.com/edgedb:3.4",
+        imageRepository: "example.com/edgedb",
+      }),
+    ).toThrow(/has an imageUri/);
+    expect(() => edgeDbStack({ imageDigest: "latest" })).toThrow(
+      /sha256:<64 hex digits>/,
+    );
+  });
+
+  it("runs a single EdgeDb task without scaling by default", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ edgeDb: { version: "3.4" } })],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ECS::Service", {
+      DesiredCount: 1,
+      DeploymentConfiguration: Match.objectLike({
+        DeploymentCircuitBreaker: Match.absent(),
+      }),
+    });
+    template.resourceCountIs("AWS::ApplicationAutoScaling::ScalableTarget", 0);
+  });
+
+  it("scales EdgeDb on CPU and connections per task", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              desiredCount: 2,
+              maxCount: 4,
+              scaleOnCpuUtilization: 60,
+              scaleOnConnectionsPerTask: 200,
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ECS::Service", { DesiredCount: 2 });
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalableTarget",
+      { MinCapacity: 2, MaxCapacity: 4 },
+    );
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      {
+        TargetTrackingScalingPolicyConfiguration: {
+          PredefinedMetricSpecification: {
+            PredefinedMetricType: "ECSServiceAverageCPUUtilization",
+          },
+          TargetValue: 60,
+        },
+      },
+    );
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalingPolicy",
+      {
+        TargetTrackingScalingPolicyConfiguration: {
+          CustomizedMetricSpecification: {
+            MetricName: Match.absent(),
+            Metrics: Match.arrayWith([
+              Match.objectLike({
+                Id: "connectionsPerTask",
+                Expression: "flows / MAX([healthy, 1])",
+                ReturnData: true,
+              }),
+            ]),
+          },
+          TargetValue: 200,
+        },
+      },
+    );
+  });
+
+  it("stops and rolls back failed EdgeDb deployments if asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              deploymentCircuitBreaker: { rollback: true },
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ECS::Service", {
+      DeploymentConfiguration: Match.objectLike({
+        DeploymentCircuitBreaker: { Enable: true, Rollback: true },
+      }),
+    });
+  });
+
+  it("refuses EdgeDb task counts that cannot scale", () => {
+    const edgeDbStack = (edgeDb: Partial<EdgeDbCommon>) =>
+      createTestInfrastructureStack({
+        databases: [database({ edgeDb: { version: "3.4", ...edgeDb } })],
+      });
+
+    expect(() => edgeDbStack({ desiredCount: 0 })).toThrow(/task counts/);
+    expect(() => edgeDbStack({ desiredCount: 3, maxCount: 2 })).toThrow(
+      /task counts/,
+    );
+    expect(() => edgeDbStack({ scaleOnCpuUtilization: 50 })).toThrow(
+      /needs a maxCount/,
+    );
+    expect(() => edgeDbStack({ maxCount: 3 })).toThrow(
+      /needs a scaling target/,
+    );
+  });
+});
+
+describe("backup", () => {
+  it("does not create backups unless asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({ databases: [database()] }),
+    );
+
+    template.resourceCountIs("AWS::Backup::BackupVault", 0);
+    expectNoParameter(template, backupVaultArnParameterName(STACK_ID));
+  });
+
+  it("backs up every database and selected buckets", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database(),
+          database({ postgresType: "postgres-instance", name: "other_db" }),
+        ],
+        backup: {
+          schedule: Schedule.cron({ hour: "1", minute: "30" }),
+          deleteAfter: Duration.days(35),
+          bucketNames: ["elsa-data-bucket"],
+          copyTo: [
+            {
+              destinationBackupVaultArn:
+                "arn:aws:backup:us-east-1:123456789012:backup-vault:DisasterRecovery",
+              deleteAfter: Duration.days(90),
+            },
+          ],
+        },
+      }),
+    );
+
+    template.hasResourceProperties("AWS::Backup::BackupPlan", {
+      BackupPlan: {
+        BackupPlanRule: [
+          Match.objectLike({
+            ScheduleExpression: "cron(30 1 * * ? *)",
+            Lifecycle: { DeleteAfterDays: 35 },
+            CopyActions: [
+              {
+                DestinationBackupVaultArn:
+                  "arn:aws:backup:us-east-1:123456789012:backup-vault:DisasterRecovery",
+                Lifecycle: { DeleteAfterDays: 90 },
+              },
+            ],
+          }),
+        ],
+      },
+    });
+
+    const selections = Object.values(
+      template.findResources("AWS::Backup::BackupSelection"),
+    );
+
+    expect(selections).toHaveLength(1);
+
+    const resources = JSON.stringify(
+      selections[0].Properties.BackupSelection.Resources,
+    );
+
+    expect(resources).toContain(":cluster:");
+    expect(resources).toContain("DatabaseInstance");
+    expect(resources).toContain(":s3:::elsa-data-bucket");
+
+    template.hasResourceProperties("AWS::IAM::Role", {
+      ManagedPolicyArns: Match.arrayWith([
+        {
+          "Fn::Join": [
+            "",
+            Match.arrayWith([
+              ":iam::aws:policy/AWSBackupServiceRolePolicyForS3Backup",
+            ]),
+          ],
+        },
+      ]),
+    });
+    expectParameter(template, backupVaultArnParameterName(STACK_ID));
+  });
+});
+
+describe("observability", () => {
+  function alarmMetricNames(template: Template): string[] {
+    return Object.values(template.findResources("AWS::CloudWatch::Alarm")).map(
+      (alarm) => alarm.Properties.MetricName,
+    );
+  }
+
+  it("does not create alarms unless asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ edgeDb: { version: "3.4" } })],
+      }),
+    );
+
+    template.resourceCountIs("AWS::CloudWatch::Alarm", 0);
+    template.resourceCountIs("AWS::CloudWatch::Dashboard", 0);
+    template.hasResourceProperties("AWS::ECS::Cluster", {
+      ClusterSettings: Match.absent(),
+    });
+  });
+
+  it("alarms on every database and EdgeDb to a topic", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({ edgeDb: { version: "3.4" } }),
+          database({ postgresType: "postgres-instance", name: "other_db" }),
+        ],
+        observability: {
+          alarmEmailAddresses: ["ops@example.com"],
+          dashboardName: "Elsa",
+          databaseConnectionsThreshold: 50,
+        },
+      }),
+    );
+
+    template.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "email",
+      Endpoint: "ops@example.com",
+    });
+
+    expect(alarmMetricNames(template).sort()).toEqual(
+      [
+        // the serverless database
+        "CPUUtilization",
+        "DatabaseConnections",
+        "ACUUtilization",
+        // the instance database
+        "CPUUtilization",
+        "DatabaseConnections",
+        "FreeStorageSpace",
+        // the EdgeDb
+        "CPUUtilization",
+        "MemoryUtilization",
+        "RunningTaskCount",
+        "HealthyHostCount",
+      ].sort(),
+    );
+
+    template.allResourcesProperties("AWS::CloudWatch::Alarm", {
+      AlarmActions: [Match.objectLike({ Ref: Match.anyValue() })],
+    });
+    template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      MetricName: "DatabaseConnections",
+      Threshold: 50,
+    });
+    template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      MetricName: "RunningTaskCount",
+      Namespace: "ECS/ContainerInsights",
+      TreatMissingData: "breaching",
+    });
+    template.hasResourceProperties("AWS::ECS::Cluster", {
+      ClusterSettings: [{ Name: "containerInsights", Value: "enabled" }],
+    });
+
+    template.resourceCountIs("AWS::CloudWatch::Dashboard", 1);
+    template.hasResourceProperties("AWS::CloudWatch::Dashboard", {
+      DashboardName: "Elsa",
+    });
+  });
+
+  it("alarms on an existing database by its identifier", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            postgresType: "postgres-instance",
+            existing: {
+              identifier: "legacy-db",
+              adminSecretArn:
+                "arn:aws:secretsmanager:ap-southeast-2:123456789012:secret:legacy-AbCdEf",
+              securityGroupId: "sg-12345678",
+            },
+          }),
+        ],
+        observability: {},
+      }),
+    );
+
+    template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      MetricName: "FreeStorageSpace",
+      Namespace: "AWS/RDS",
+      Dimensions: [{ Name: "DBInstanceIdentifier", Value: "legacy-db" }],
+    });
+  });
+});
+
+describe("bastion", () => {
+  it("does not create a bastion unless asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database()],
+      }),
+    );
+
+    template.resourceCountIs("AWS::EC2::Instance", 0);
+    expectNoParameter(template, bastionInstanceIdParameterName(STACK_ID));
+  });
+
+  it("is let in to the security groups of every database and EdgeDb", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ edgeDb: { version: "3.4" } })],
+        bastion: {},
+      }),
+    );
+
+    const instances = Object.values(
+      template.findResources("AWS::EC2::Instance"),
+    );
+    expect(instances).toHaveLength(1);
+    expect(instances[0].Properties.InstanceType).toEqual("t4g.nano");
+    // only its own security group - the database and the EdgeDb let it in on their ports
+    expect(instances[0].Properties.SecurityGroupIds).toHaveLength(1);
+    const bastionIngress = template.findResources(
+      "AWS::EC2::SecurityGroupIngress",
+      {
+        Properties: {
+          SourceSecurityGroupId: {
+            "Fn::GetAtt": [Match.stringLikeRegexp("^Bastion"), "GroupId"],
+          },
+        },
+      },
+    );
+    expect(Object.keys(bastionIngress)).toHaveLength(2);
+
+    // nothing can connect to the bastion - it is only reached through SSM
+    const bastionSecurityGroups = template.findResources(
+      "AWS::EC2::SecurityGroup",
+      {
+        Properties: {
+          GroupDescription: Match.stringLikeRegexp("Bastion"),
+        },
+      },
+    );
+    expect(Object.keys(bastionSecurityGroups)).toHaveLength(1);
+    expect(
+      Object.values(bastionSecurityGroups)[0].Properties.SecurityGroupIngress,
+    ).toBeUndefined();
+
+    expectParameter(template, bastionInstanceIdParameterName(STACK_ID));
+
+    const outputs = Object.keys(template.findOutputs("*"));
+    expect(
+      outputs.filter((o) => o.includes("PortForwardCommand")),
+    ).toHaveLength(2);
+  });
+
+  it("reaches more databases than an instance has security groups", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: ["db_a", "db_b", "db_c"].map((name) =>
+          database({ name: name, edgeDb: { version: "3.4" } }),
+        ),
+        bastion: {},
+      }),
+    );
+
+    const outputs = Object.keys(template.findOutputs("*"));
+    expect(
+      outputs.filter((o) => o.includes("PortForwardCommand")),
+    ).toHaveLength(6);
+  });
+
+  it("outputs the security group of an existing database to open by hand", () => {
+    const stack = createTestInfrastructureStack({
+      databases: [
+        database({
+          postgresType: "postgres-instance",
+          existing: {
+            identifier: "legacy-db",
+            adminSecretArn:
+              "arn:aws:secretsmanager:ap-southeast-2:123456789012:secret:legacy-AbCdEf",
+            securityGroupId: "sg-12345678",
+          },
+        }),
+      ],
+      bastion: {},
+    });
+    const template = Template.fromStack(stack);
+
+    // the existing security group is not ours to change
+    template.resourcePropertiesCountIs(
+      "AWS::EC2::SecurityGroupIngress",
+      { GroupId: "sg-12345678" },
+      0,
+    );
+    Annotations.fromStack(stack).hasWarning(
+      "*",
+      Match.stringLikeRegexp("cannot change the security group sg-12345678"),
+    );
+
+    const outputs = template.findOutputs("*");
+    const securityGroupOutputs = Object.entries(outputs).filter(([o]) =>
+      o.includes("PortForwardSecurityGroup"),
+    );
+    expect(securityGroupOutputs).toHaveLength(1);
+    expect(securityGroupOutputs[0][1].Value).toBe("sg-12345678");
+    expect(
+      Object.keys(outputs).filter((o) => o.includes("PortForwardCommand")),
+    ).toHaveLength(1);
+  });
+
+  it("refuses a bastion that cannot reach SSM", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        network: { natGateways: 0 },
+        bastion: {},
+      }),
+    ).toThrow(/ssm interfaceEndpoints/);
+  });
+});
+
+describe("snapshot restore", () => {
+  it("restores an instance from a snapshot with the password of the secret", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            postgresType: "postgres-instance",
+            snapshotIdentifier: "elsa-final-snapshot",
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      DBSnapshotIdentifier: "elsa-final-snapshot",
+      DBName: Match.absent(),
+      MasterUserPassword: {
+        "Fn::Join": [
+          "",
+          Match.arrayWith([Match.stringLikeRegexp(":SecretString:password")]),
+        ],
+      },
+    });
+    expectParameter(
+      template,
+      databaseAdminPasswordSecretArnParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("restores a serverless cluster from a snapshot", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ snapshotIdentifier: "elsa-final-snapshot" })],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::RDS::DBCluster", {
+      SnapshotIdentifier: "elsa-final-snapshot",
+      DatabaseName: Match.absent(),
+      MasterUserPassword: Match.anyValue(),
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databaseDsnNoPasswordParameterName(STACK_ID, DB_NAME),
+      Value: {
+        "Fn::Join": [
+          "",
+          Match.arrayWith([Match.stringLikeRegexp("/test_db$")]),
+        ],
+      },
+    });
+  });
+});
+
+describe("existing databases", () => {
+  const existing = {
+    identifier: "legacy-elsa",
+    adminSecretArn:
+      "arn:aws:secretsmanager:ap-southeast-2:123456789012:secret:LegacyElsaRds-AbCdEf",
+    securityGroupId: "sg-0123456789abcdef0",
+  };
+
+  it("imports an existing instance rather than creating one", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ postgresType: "postgres-instance", existing })],
+      }),
+    );
+
+    template.resourceCountIs("AWS::RDS::DBInstance", 0);
+    template.resourceCountIs("AWS::SecretsManager::Secret", 0);
+    template.hasResourceProperties("Custom::AWS", {
+      Create: Match.stringLikeRegexp(
+        '"action":"describeDBInstances".*"DBInstanceIdentifier":"legacy-elsa"',
+      ),
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databaseHostnameParameterName(STACK_ID, DB_NAME),
+      Value: {
+        "Fn::GetAtt": [Match.anyValue(), "DBInstances.0.Endpoint.Address"],
+      },
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databasePortParameterName(STACK_ID, DB_NAME),
+      Value: {
+        "Fn::GetAtt": [Match.anyValue(), "DBInstances.0.Endpoint.Port"],
+      },
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databaseAdminPasswordSecretArnParameterName(STACK_ID, DB_NAME),
+      Value: existing.adminSecretArn,
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databaseSecurityGroupIdParameterName(STACK_ID, DB_NAME),
+      Value: existing.securityGroupId,
+    });
+  });
+
+  it("imports an existing cluster with EdgeDb in front of it", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ existing, edgeDb: { version: "3.4" } })],
+      }),
+    );
+
+    template.resourceCountIs("AWS::RDS::DBCluster", 0);
+    template.hasResourceProperties("Custom::AWS", {
+      Create: Match.stringLikeRegexp(
+        '"action":"describeDBClusters".*"DBClusterIdentifier":"legacy-elsa"',
+      ),
+    });
+    template.hasResourceProperties("AWS::ECS::Service", {
+      NetworkConfiguration: {
+        AwsvpcConfiguration: Match.objectLike({
+          SecurityGroups: Match.arrayWith([existing.securityGroupId]),
+        }),
+      },
+    });
+    expectParameter(
+      template,
+      databaseReaderHostnameParameterName(STACK_ID, DB_NAME),
+    );
+    expectParameter(
+      template,
+      databaseEdgeDbDsnNoPasswordOrDatabaseParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("refuses settings that configure the creation of a database", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        databases: [
+          database({ existing, engineVersion: "16.1", enableProxy: true }),
+        ],
+      }),
+    ).toThrow(/cannot use settings \(engineVersion, enableProxy\)/);
+  });
+});
+
+describe("high availability", () => {
+  it("creates a single-AZ instance and no readers by default", () => {
+    const instance = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ postgresType: "postgres-instance" })],
+      }),
+    );
+
+    instance.hasResourceProperties("AWS::RDS::DBInstance", {
+      MultiAZ: Match.absent(),
+    });
+
+    const serverless = Template.fromStack(
+      createTestInfrastructureStack({ databases: [database()] }),
+    );
+
+    serverless.resourceCountIs("AWS::RDS::DBInstance", 1);
+    expectNoParameter(
+      serverless,
+      databaseReaderHostnameParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("creates a multi-AZ instance", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({ postgresType: "postgres-instance", multiAz: true }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      MultiAZ: true,
+    });
+    expectNoParameter(
+      template,
+      databaseReaderHostnameParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("creates serverless readers in their own scaling tier", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ readers: 2 })],
+      }),
+    );
+
+    template.resourceCountIs("AWS::RDS::DBInstance", 3);
+    template.resourcePropertiesCountIs(
+      "AWS::RDS::DBInstance",
+      { PromotionTier: 2 },
+      2,
+    );
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databaseReaderHostnameParameterName(STACK_ID, DB_NAME),
+      Value: { "Fn::GetAtt": [Match.anyValue(), "ReadEndpoint.Address"] },
+    });
+  });
+
+  it("creates serverless readers that scale with the writer", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ readers: 1, readersScaleWithWriter: true })],
+      }),
+    );
+
+    template.resourcePropertiesCountIs(
+      "AWS::RDS::DBInstance",
+      { PromotionTier: 1 },
+      1,
+    );
+  });
+
+  it("refuses an impossible number of readers", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        databases: [database({ readers: 16 })],
+      }),
+    ).toThrow(/between 0 and 15 readers/);
+  });
+});
+
+describe("iam authentication", () => {
+  it("does not switch on IAM authentication unless asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({ databases: [database()] }),
+    );
+
+    expectNoParameter(
+      template,
+      databaseResourceIdParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it("switches on IAM authentication for an instance", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            postgresType: "postgres-instance",
+            enableIamAuthentication: true,
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      EnableIAMDatabaseAuthentication: true,
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databaseResourceIdParameterName(STACK_ID, DB_NAME),
+      Value: {
+        "Fn::GetAtt": [
+          Match.stringLikeRegexp("DatabaseInstance"),
+          "DbiResourceId",
+        ],
+      },
+    });
+  });
+
+  it("grants rds_iam to bootstrapped roles that ask for it", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            enableIamAuthentication: true,
+            bootstrap: {
+              roles: [
+                { name: "elsa_app", rdsIam: true },
+                { name: "elsa_admin" },
+              ],
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: `${STACK_ID}-TestDb-postgres-bootstrap`,
+      ContainerDefinitions: [
+        Match.objectLike({
+          Command: [
+            Match.stringLikeRegexp(
+              `GRANT rds_iam TO "elsa_app";(.|\\n)*REVOKE rds_iam FROM "elsa_admin";`,
+            ),
+          ],
+        }),
+      ],
+    });
+  });
+
+  it("refuses rds_iam roles without IAM authentication", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            bootstrap: { roles: [{ name: "elsa_app", rdsIam: true }] },
+          }),
+        ],
+      }),
+    ).toThrow(/must have enableIamAuthentication/);
+  });
+
+  it("switches on IAM authentication for a serverless cluster", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ enableIamAuthentication: true })],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::RDS::DBCluster", {
+      EnableIAMDatabaseAuthentication: true,
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: databaseResourceIdParameterName(STACK_ID, DB_NAME),
+      Value: {
+        "Fn::GetAtt": [Match.anyValue(), "DBClusterResourceId"],
+      },
+    });
+  });
+});
+
+describe("proxy", () => {
+  it("does not create a proxy unless asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({ databases: [database()] }),
+    );
+
+    template.resourceCountIs("AWS::RDS::DBProxy", 0);
+    expectNoParameter(
+      template,
+      databaseProxyHostnameParameterName(STACK_ID, DB_NAME),
+    );
+  });
+
+  it.each(["postgres-instance", "postgres-serverless-2"] as const)(
+    "puts an IAM auth proxy in front of a %s database",
+    (postgresType) => {
+      const template = Template.fromStack(
+        createTestInfrastructureStack({
+          databases: [database({ postgresType, enableProxy: true })],
+        }),
+      );
+
+      template.hasResourceProperties("AWS::RDS::DBProxy", {
+        EngineFamily: "POSTGRESQL",
+        RequireTLS: true,
+        Auth: [
+          Match.objectLike({
+            IAMAuth: "REQUIRED",
+            SecretArn: { Ref: Match.stringLikeRegexp("SecretAttachment") },
+          }),
+        ],
+        VpcSecurityGroupIds: [
+          {
+            "Fn::GetAtt": [
+              Match.stringLikeRegexp("ProxyMembershipSecurityGroup"),
+              "GroupId",
+            ],
+          },
+          {
+            "Fn::GetAtt": [
+              Match.stringLikeRegexp("[^y]MembershipSecurityGroup"),
+              "GroupId",
+            ],
+          },
+        ],
+      });
+      template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        FromPort: 5432,
+        GroupId: {
+          "Fn::GetAtt": [
+            Match.stringLikeRegexp("ProxyMembershipSecurityGroup"),
+            "GroupId",
+          ],
+        },
+        SourceSecurityGroupId: {
+          "Fn::GetAtt": [
+            Match.stringLikeRegexp("ProxyMembershipSecurityGroup"),
+            "GroupId",
+          ],
+        },
+      });
+
+      expectParameter(
+        template,
+        databaseProxyHostnameParameterName(STACK_ID, DB_NAME),
+      );
+      expectParameter(
+        template,
+        databaseProxyDsnNoPasswordParameterName(STACK_ID, DB_NAME),
+      );
+      expectParameter(
+        template,
+        databaseProxySecurityGroupIdParameterName(STACK_ID, DB_NAME),
+      );
+    },
+  );
+});
+
+describe("rotation", () => {
+  it("does not rotate passwords unless asked", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [database({ edgeDb: { version: "3.4" } })],
+      }),
+    );
+
+    template.resourceCountIs("AWS::SecretsManager::RotationSchedule", 0);
+  });
+
+  it("rotates the admin password with the hosted rotation", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            postgresType: "postgres-instance",
+            rotateAdminPasswordAfter: Duration.days(30),
+          }),
+        ],
+      }),
+    );
+
+    expect(template.toJSON().Transform).toBe("AWS::SecretsManager-2020-07-23");
+    template.hasResourceProperties("AWS::SecretsManager::RotationSchedule", {
+      SecretId: { Ref: Match.stringLikeRegexp("SecretAttachment") },
+      HostedRotationLambda: Match.objectLike({
+        RotationType: "PostgreSQLSingleUser",
+      }),
+      RotationRules: { AutomaticallyAfterDays: 30 },
+    });
+  });
+
+  it("rotates the EdgeDb superuser password and restarts the service", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              rotateSuperUserPasswordAfter: Duration.days(7),
+            },
+          }),
+        ],
+      }),
+    );
+
+    template.hasResourceProperties("AWS::SecretsManager::RotationSchedule", {
+      RotationLambdaARN: Match.anyValue(),
+      RotationRules: { AutomaticallyAfterDays: 7 },
+    });
+    template.hasResourceProperties("AWS::Lambda::Function", {
+      Runtime: "nodejs20.x",
+      Environment: {
+        Variables: Match.objectLike({
+          SERVICE_NAME: Match.anyValue(),
+          TASK_DEFINITION_ARN: Match.anyValue(),
+        }),
+      },
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      Family: "edge-db-rotation-family",
+      ContainerDefinitions: [
+        Match.objectLike({
+          Command: [Match.stringLikeRegexp("alter role elsa_superuser")],
+          Secrets: Match.arrayWith([
+            {
+              Name: "NEW_PASSWORD",
+              ValueFrom: {
+                "Fn::Join": ["", [Match.anyValue(), "::AWSPENDING:"]],
+              },
+            },
+          ]),
+        }),
+      ],
+    });
+  });
+
+  it("refuses to rotate the admin password of a database behind EdgeDb", () => {
+    expect(() =>
+      createTestInfrastructureStack({
+        databases: [
+          database({
+            rotateAdminPasswordAfter: Duration.days(30),
+            edgeDb: { version: "3.4" },
+          }),
+        ],
+      }),
+    ).toThrow(/EdgeDb holds the admin password/);
+  });
+});
+
+describe("parameter manifest", () => {
+  function expectManifestParameter(
+    template: Template,
+    path: string,
+    parameterType: InfrastructureParameterType,
+  ) {
+    expectParameter(
+      template,
+      path,
+      parameterType === InfrastructureParameterType.STRING_LIST
+        ? "StringList"
+        : "String",
+    );
+  }
+
+  it("writes every mandatory parameter in the manifest", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({ databases: [database()] }),
+    );
+
+    for (const p of InfrastructureParameterManifest.parameters(STACK_ID, [
+      DB_NAME,
+    ]))
+      if (!p.optional)
+        expectManifestParameter(template, p.path, p.parameterType);
+  });
+
+  it("writes every parameter in the manifest when all features are used", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        ns: { name: "test-ns" },
+        dns: { hostedZoneName: TEST_HOSTED_ZONE_NAME },
+        backup: {},
+        bastion: {},
+        databases: [
+          database({
+            readers: 1,
+            enableIamAuthentication: true,
+            enableProxy: true,
+            bootstrap: { roles: [{ name: "elsa_app" }] },
+            edgeDb: { version: "3.4", bootstrap: { roles: ["elsa_app"] } },
+          }),
+        ],
+      }),
+    );
+
+    const parameters = InfrastructureParameterManifest.parameters(STACK_ID, [
+      DB_NAME,
+    ]);
+
+    for (const p of parameters)
+      expectManifestParameter(template, p.path, p.parameterType);
+
+    // and nothing that is not in the manifest
+    template.resourceCountIs("AWS::SSM::Parameter", parameters.length);
+  });
+});
+
+describe("snapshot", () => {
+  it("matches the snapshot of a fully featured stack", () => {
+    const template = Template.fromStack(
+      createTestInfrastructureStack({
+        isDevelopment: true,
+        ns: { name: "test-ns" },
+        dns: { hostedZoneName: TEST_HOSTED_ZONE_NAME },
+        databases: [
+          database({
+            edgeDb: {
+              version: "3.4",
+              makePubliclyReachable: { urlPrefix: "edge" },
+            },
+          }),
+        ],
+      }),
+    );
+
+    expect(template.toJSON()).toMatchSnapshot();
+  });
+});
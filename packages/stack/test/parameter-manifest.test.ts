@@ -0,0 +1,75 @@
+import {
+  InfrastructureParameterManifest,
+  InfrastructureParameterType,
+  parameterPath,
+} from "../parameter-manifest";
+
+describe("parameter manifest", () => {
+  it("fills in the infrastructure stack id and database name", () => {
+    expect(parameterPath("vpcId", "Infra")).toBe("/Infra/VPC/vpcId");
+    expect(parameterPath("databaseHostname", "Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/hostname",
+    );
+  });
+
+  it("insists on a database name for per database parameters", () => {
+    expect(() => parameterPath("databaseHostname", "Infra")).toThrow(
+      /needs a database name/,
+    );
+  });
+
+  it("lists parameters with placeholders if nothing is known", () => {
+    const parameters = InfrastructureParameterManifest.parameters();
+
+    expect(parameters).toContainEqual({
+      name: "databaseAdminPasswordSecretArn",
+      path: "/{infrastructureStackId}/Database/{databaseName}/adminPasswordSecretArn",
+      parameterType: InfrastructureParameterType.ARN,
+      optional: false,
+      databaseName: undefined,
+      description: expect.any(String),
+    });
+  });
+
+  it("lists per database parameters for each database", () => {
+    const parameters = InfrastructureParameterManifest.parameters("Infra", [
+      "first_db",
+      "second_db",
+    ]);
+
+    const hostnames = parameters.filter((p) => p.name === "databaseHostname");
+
+    expect(hostnames.map((p) => p.path)).toEqual([
+      "/Infra/Database/first_db/hostname",
+      "/Infra/Database/second_db/hostname",
+    ]);
+    expect(hostnames.map((p) => p.databaseName)).toEqual([
+      "first_db",
+      "second_db",
+    ]);
+    // stack level parameters are listed only once
+    expect(parameters.filter((p) => p.name === "vpcId")).toHaveLength(1);
+  });
+
+  it("has unique paths", () => {
+    const paths = InfrastructureParameterManifest.parameters("Infra", [
+      "my_db",
+    ]).map((p) => p.path);
+
+    expect(new Set(paths).size).toBe(paths.length);
+  });
+
+  it("exports as JSON", () => {
+    const json = JSON.parse(
+      InfrastructureParameterManifest.toJson("Infra", ["my_db"]),
+    );
+
+    expect(json).toContainEqual({
+      name: "vpcPrivateSubnetIds",
+      path: "/Infra/VPC/privateSubnetIds",
+      parameterType: "StringList",
+      optional: false,
+      description: expect.any(String),
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  certificateArnParameterName,
+  databaseAdminPasswordSecretArnParameterName,
+  databaseAdminUserParameterName,
+  databaseDsnNoPasswordParameterName,
+  databaseDsnWithPasswordParameterName,
+  databaseEdgeDbAdminPasswordSecretArnParameterName,
+  databaseEdgeDbDsnNoPasswordOrDatabaseParameterName,
+  databaseEdgeDbRoleSecretArnsParameterName,
+  databaseEdgeDbSecurityGroupIdParameterName,
+  databaseHostnameParameterName,
+  databasePortParameterName,
+  databaseProxyArnParameterName,
+  databaseProxyDsnNoPasswordParameterName,
+  databaseProxyHostnameParameterName,
+  databaseProxyNameParameterName,
+  databaseProxySecurityGroupIdParameterName,
+  databaseReaderHostnameParameterName,
+  databaseResourceIdParameterName,
+  databaseRoleSecretArnsParameterName,
+  databaseSecurityGroupIdParameterName,
+  namespaceArnParameterName,
+  namespaceIdParameterName,
+  namespaceNameParameterName,
+  secretsManagerSecretsPrefixParameterName,
+  vpcAvailabilityZonesParameterName,
+  vpcIdParameterName,
+  vpcInternalSecurityGroupIdParameterName,
+  vpcIsolatedSubnetIdsParameterName,
+  vpcIsolatedSubnetRouteTableIdsParameterName,
+  vpcPrivateSubnetIdsParameterName,
+  vpcPrivateSubnetRouteTableIdsParameterName,
+  vpcPublicSubnetIdsParameterName,
+  vpcPublicSubnetRouteTableIdsParameterName,
+  vpcSecurityGroupIdParameterName,
+} from "../parameter-names";
+
+// these names are a contract with every application stack that has been deployed
+// using the infrastructure client - so any change here is a breaking change
+
+describe("parameter names", () => {
+  it("has stable VPC parameter names", () => {
+    expect(vpcIdParameterName("Infra")).toBe("/Infra/VPC/vpcId");
+    expect(vpcAvailabilityZonesParameterName("Infra")).toBe(
+      "/Infra/VPC/availabilityZones",
+    );
+    expect(vpcPublicSubnetIdsParameterName("Infra")).toBe(
+      "/Infra/VPC/publicSubnetIds",
+    );
+    expect(vpcPublicSubnetRouteTableIdsParameterName("Infra")).toBe(
+      "/Infra/VPC/publicSubnetRouteTableIds",
+    );
+    expect(vpcPrivateSubnetIdsParameterName("Infra")).toBe(
+      "/Infra/VPC/privateSubnetIds",
+    );
+    expect(vpcPrivateSubnetRouteTableIdsParameterName("Infra")).toBe(
+      "/Infra/VPC/privateSubnetRouteTableIds",
+    );
+    expect(vpcIsolatedSubnetIdsParameterName("Infra")).toBe(
+      "/Infra/VPC/isolatedSubnetIds",
+    );
+    expect(vpcIsolatedSubnetRouteTableIdsParameterName("Infra")).toBe(
+      "/Infra/VPC/isolatedSubnetRouteTableIds",
+    );
+    expect(vpcSecurityGroupIdParameterName("Infra")).toBe(
+      "/Infra/VPC/securityGroupId",
+    );
+    expect(vpcInternalSecurityGroupIdParameterName("Infra")).toBe(
+      "/Infra/VPC/internalSecurityGroupId",
+    );
+  });
+
+  it("has stable shared service parameter names", () => {
+    expect(secretsManagerSecretsPrefixParameterName("Infra")).toBe(
+      "/Infra/SecretsManager/secretsPrefix",
+    );
+    expect(namespaceNameParameterName("Infra")).toBe(
+      "/Infra/HttpNamespace/namespaceName",
+    );
+    expect(namespaceIdParameterName("Infra")).toBe(
+      "/Infra/HttpNamespace/namespaceId",
+    );
+    expect(namespaceArnParameterName("Infra")).toBe(
+      "/Infra/HttpNamespace/namespaceArn",
+    );
+    expect(certificateArnParameterName("Infra")).toBe(
+      "/Infra/Certificate/certificateArn",
+    );
+  });
+
+  it("has stable database parameter names", () => {
+    expect(databaseDsnWithPasswordParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/dsnWithPassword",
+    );
+    expect(databaseDsnNoPasswordParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/dsnNoPassword",
+    );
+    expect(databaseHostnameParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/hostname",
+    );
+    expect(databasePortParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/port",
+    );
+    expect(databaseAdminUserParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/adminUser",
+    );
+    expect(databaseAdminPasswordSecretArnParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/adminPasswordSecretArn",
+    );
+    expect(databaseSecurityGroupIdParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/securityGroupId",
+    );
+    expect(databaseReaderHostnameParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/readerHostname",
+    );
+    expect(databaseResourceIdParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/resourceId",
+    );
+    expect(databaseRoleSecretArnsParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/roleSecretArns",
+    );
+  });
+
+  it("has stable proxy parameter names", () => {
+    expect(databaseProxyHostnameParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/Proxy/hostname",
+    );
+    expect(databaseProxyDsnNoPasswordParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/Proxy/dsnNoPassword",
+    );
+    expect(databaseProxyNameParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/Proxy/name",
+    );
+    expect(databaseProxyArnParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/Proxy/arn",
+    );
+    expect(databaseProxySecurityGroupIdParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/Proxy/securityGroupId",
+    );
+  });
+
+  it("has stable EdgeDb parameter names", () => {
+    expect(
+      databaseEdgeDbDsnNoPasswordOrDatabaseParameterName("Infra", "my_db"),
+    ).toBe("/Infra/Database/my_db/EdgeDb/dsnNoPasswordOrDatabase");
+    expect(
+      databaseEdgeDbAdminPasswordSecretArnParameterName("Infra", "my_db"),
+    ).toBe("/Infra/Database/my_db/EdgeDb/adminPasswordSecretArn");
+    expect(databaseEdgeDbSecurityGroupIdParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/EdgeDb/securityGroupId",
+    );
+    expect(databaseEdgeDbRoleSecretArnsParameterName("Infra", "my_db")).toBe(
+      "/Infra/Database/my_db/EdgeDb/roleSecretArns",
+    );
+  });
+});
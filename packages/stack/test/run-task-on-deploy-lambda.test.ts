@@ -0,0 +1,100 @@
+import { ECSClient } from "@aws-sdk/client-ecs";
+import {
+  isComplete,
+  onEvent,
+  RunTaskProperties,
+  taskOutcome,
+} from "../ecs/run-task-on-deploy-lambda";
+
+const TASK_ARN = "arn:aws:ecs:ap-southeast-2:123456789012:task/cluster/abc";
+
+const PROPERTIES: RunTaskProperties = {
+  Cluster: "arn:aws:ecs:ap-southeast-2:123456789012:cluster/cluster",
+  TaskDefinition:
+    "arn:aws:ecs:ap-southeast-2:123456789012:task-definition/bootstrap:1",
+  Subnets: ["subnet-private1"],
+  SecurityGroups: ["sg-egress", "sg-membership"],
+};
+
+/**
+ * A custom resource event for the run task resource.
+ *
+ * @param requestType
+ */
+function event(requestType: "Create" | "Update" | "Delete"): any {
+  return {
+    RequestType: requestType,
+    ResourceProperties: PROPERTIES,
+    PhysicalResourceId: TASK_ARN,
+  };
+}
+
+describe("run task on deploy", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("starts the task on create and uses it as the physical id", async () => {
+    const send = jest
+      .spyOn(ECSClient.prototype, "send")
+      .mockResolvedValue({ tasks: [{ taskArn: TASK_ARN }] } as never);
+
+    expect(await onEvent(event("Create"))).toEqual({
+      PhysicalResourceId: TASK_ARN,
+    });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails if the task cannot be started", async () => {
+    jest.spyOn(ECSClient.prototype, "send").mockResolvedValue({
+      tasks: [],
+      failures: [{ reason: "RESOURCE:MEMORY" }],
+    } as never);
+
+    await expect(onEvent(event("Update"))).rejects.toThrow(/RESOURCE:MEMORY/);
+  });
+
+  it("does nothing on delete", async () => {
+    const send = jest.spyOn(ECSClient.prototype, "send");
+
+    expect(await onEvent(event("Delete"))).toEqual({
+      PhysicalResourceId: TASK_ARN,
+    });
+    expect(await isComplete(event("Delete"))).toEqual({ IsComplete: true });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("is complete only once the task has stopped", async () => {
+    jest.spyOn(ECSClient.prototype, "send").mockResolvedValue({
+      tasks: [{ taskArn: TASK_ARN, lastStatus: "RUNNING" }],
+    } as never);
+
+    expect(await isComplete(event("Create"))).toEqual({ IsComplete: false });
+  });
+
+  it("succeeds when every container exits cleanly", () => {
+    expect(
+      taskOutcome({
+        lastStatus: "STOPPED",
+        containers: [{ name: "bootstrap", exitCode: 0 }],
+      }),
+    ).toBe(true);
+  });
+
+  it("fails when a container exits with an error", () => {
+    expect(() =>
+      taskOutcome({
+        lastStatus: "STOPPED",
+        containers: [{ name: "bootstrap", exitCode: 3 }],
+      }),
+    ).toThrow(/container bootstrap exited with 3/);
+  });
+
+  it("fails when a container never started", () => {
+    expect(() =>
+      taskOutcome({
+        lastStatus: "STOPPED",
+        stoppedReason: "CannotPullContainerError",
+        containers: [{ name: "bootstrap" }],
+      }),
+    ).toThrow(/no exit code \(CannotPullContainerError\)/);
+  });
+});
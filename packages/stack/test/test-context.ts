@@ -0,0 +1,110 @@
+import { App, Environment } from "aws-cdk-lib";
+import {
+  InfrastructureStack,
+  InfrastructureStackProps,
+} from "../infrastructure-stack";
+
+/**
+ * The environment all our test stacks are "deployed" to. Lookups need
+ * a concrete account/region so that context keys can be constructed.
+ */
+export const TEST_ENV: Required<Environment> = {
+  account: "123456789012",
+  region: "ap-southeast-2",
+};
+
+export const TEST_VPC_NAME = "main-vpc";
+
+export const TEST_HOSTED_ZONE_NAME = "dev.example.com";
+
+/**
+ * The context key CDK uses when looking up a SSM parameter
+ * via StringParameter.valueFromLookup().
+ *
+ * @param parameterName
+ */
+export function ssmContextKey(parameterName: string): string {
+  return `ssm:account=${TEST_ENV.account}:parameterName=${parameterName}:region=${TEST_ENV.region}`;
+}
+
+/**
+ * Stubbed context that satisfies the lookups that an infrastructure stack can
+ * do (VPC by name, hosted zone by name, availability zones) - meaning no lookups
+ * will fall back to CDK dummy values.
+ */
+export function infrastructureLookupContext(): { [k: string]: any } {
+  return {
+    [`availability-zones:account=${TEST_ENV.account}:region=${TEST_ENV.region}`]:
+      ["ap-southeast-2a", "ap-southeast-2b", "ap-southeast-2c"],
+    [`vpc-provider:account=${TEST_ENV.account}:filter.tag:Name=${TEST_VPC_NAME}:region=${TEST_ENV.region}:returnAsymmetricSubnets=true`]:
+      {
+        vpcId: "vpc-0123456789abcdef0",
+        vpcCidrBlock: "10.0.0.0/16",
+        availabilityZones: [],
+        subnetGroups: [
+          {
+            name: "Public",
+            type: "Public",
+            subnets: [
+              {
+                subnetId: "subnet-public1",
+                cidr: "10.0.0.0/24",
+                availabilityZone: "ap-southeast-2a",
+                routeTableId: "rtb-public1",
+              },
+              {
+                subnetId: "subnet-public2",
+                cidr: "10.0.1.0/24",
+                availabilityZone: "ap-southeast-2b",
+                routeTableId: "rtb-public2",
+              },
+            ],
+          },
+          {
+            name: "Private",
+            type: "Private",
+            subnets: [
+              {
+                subnetId: "subnet-private1",
+                cidr: "10.0.2.0/24",
+                availabilityZone: "ap-southeast-2a",
+                routeTableId: "rtb-private1",
+              },
+              {
+                subnetId: "subnet-private2",
+                cidr: "10.0.3.0/24",
+                availabilityZone: "ap-southeast-2b",
+                routeTableId: "rtb-private2",
+              },
+            ],
+          },
+        ],
+      },
+    [`hosted-zone:account=${TEST_ENV.account}:domainName=${TEST_HOSTED_ZONE_NAME}:region=${TEST_ENV.region}`]:
+      {
+        Id: "/hostedzone/Z0123456789ABCDEFGHIJ",
+        Name: `${TEST_HOSTED_ZONE_NAME}.`,
+      },
+  };
+}
+
+/**
+ * Construct an infrastructure stack with a minimal set of props - overridden
+ * by anything passed in.
+ *
+ * @param props
+ * @param id
+ */
+export function createTestInfrastructureStack(
+  props: Partial<InfrastructureStackProps> = {},
+  id: string = "TestInfrastructureStack",
+): InfrastructureStack {
+  const app = new App({ context: infrastructureLookupContext() });
+
+  return new InfrastructureStack(app, id, {
+    env: TEST_ENV,
+    network: {},
+    secretsPrefix: "Test", // pragma: allowlist secret
+    ...props,
+  });
+}